@@ -0,0 +1,173 @@
+/**
+ * ASS Export
+ *
+ * Converts a recorded overlay session into an Advanced SubStation Alpha
+ * subtitle track whose \move effects reproduce the renderer's right-to-left
+ * animation, so the overlay look can be baked into edited clips.
+ */
+
+import type { OutlineSettings, OverlaySettings } from '@app-types';
+import type { SessionEntry } from '@core/session-recorder';
+
+const STYLE_NAME = 'Overlay';
+
+/**
+ * Format milliseconds as ASS time (h:mm:ss.cc)
+ */
+const formatAssTime = (ms: number): string => {
+  const totalCentiseconds = Math.max(0, Math.round(ms / 10));
+  const centiseconds = totalCentiseconds % 100;
+  const totalSeconds = Math.floor(totalCentiseconds / 100);
+  const seconds = totalSeconds % 60;
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const hours = Math.floor(totalSeconds / 3600);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(centiseconds)}`;
+};
+
+/**
+ * Parse "#RRGGBB" or "rgb(r, g, b)" into components
+ */
+const parseCssColor = (color: string): { r: number; g: number; b: number } | null => {
+  const hexMatch = color.trim().match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (hexMatch) {
+    return {
+      r: parseInt(hexMatch[1] || '0', 16),
+      g: parseInt(hexMatch[2] || '0', 16),
+      b: parseInt(hexMatch[3] || '0', 16),
+    };
+  }
+
+  const rgbMatch = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
+  if (rgbMatch) {
+    return {
+      r: parseInt(rgbMatch[1] || '0', 10),
+      g: parseInt(rgbMatch[2] || '0', 10),
+      b: parseInt(rgbMatch[3] || '0', 10),
+    };
+  }
+
+  return null;
+};
+
+const toHexByte = (value: number): string =>
+  Math.max(0, Math.min(255, Math.round(value)))
+    .toString(16)
+    .padStart(2, '0')
+    .toUpperCase();
+
+/**
+ * ASS color (&HAABBGGRR) - alpha 00 is opaque, FF is transparent
+ */
+const toAssColor = (color: { r: number; g: number; b: number }, opacity: number): string =>
+  `&H${toHexByte((1 - opacity) * 255)}${toHexByte(color.b)}${toHexByte(color.g)}${toHexByte(color.r)}`;
+
+/**
+ * Override tag color (&HBBGGRR&)
+ */
+const toAssOverrideColor = (color: { r: number; g: number; b: number }): string =>
+  `&H${toHexByte(color.b)}${toHexByte(color.g)}${toHexByte(color.r)}&`;
+
+/**
+ * ASS has no escaping: neutralize override braces and backslashes
+ */
+const escapeAssText = (text: string): string =>
+  text.replace(/\\/g, '＼').replace(/\{/g, '｛').replace(/\}/g, '｝').replace(/\n/g, ' ');
+
+const buildStyleLine = (fontSize: number, opacity: number, outline: OutlineSettings): string => {
+  const outlineEnabled = outline.enabled && outline.widthPx > 0 && outline.opacity > 0;
+  const outlineColor = toAssColor({ r: 0, g: 0, b: 0 }, outlineEnabled ? outline.opacity : 0);
+  return [
+    `Style: ${STYLE_NAME}`,
+    'sans-serif',
+    fontSize,
+    toAssColor({ r: 255, g: 255, b: 255 }, opacity),
+    toAssColor({ r: 255, g: 255, b: 255 }, opacity),
+    outlineColor,
+    outlineColor,
+    -1, // Bold
+    0, // Italic
+    0, // Underline
+    0, // StrikeOut
+    100, // ScaleX
+    100, // ScaleY
+    0, // Spacing
+    0, // Angle
+    1, // BorderStyle: outline + drop shadow
+    outlineEnabled ? outline.widthPx : 0,
+    0, // Shadow
+    7, // Alignment: top-left, so \move matches the element's left/top
+    0,
+    0,
+    0,
+    1, // Encoding
+  ].join(',');
+};
+
+/**
+ * Build an ASS document from recorded session entries
+ */
+export const buildAssSubtitle = (
+  entries: readonly SessionEntry[],
+  settings: Pick<OverlaySettings, 'fontSize' | 'opacity' | 'outline'>,
+  title = 'YouTube Live Chat Overlay'
+): string => {
+  const reference = entries[0];
+  const playResX = Math.round(reference?.overlayWidth ?? 1920);
+  const playResY = Math.round(reference?.overlayHeight ?? 1080);
+  const blur = settings.outline.enabled ? Math.max(0, settings.outline.blurPx) : 0;
+
+  const lines = [
+    '[Script Info]',
+    '; Generated locally by YouTube Live Chat Overlay',
+    `Title: ${escapeAssText(title)}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    buildStyleLine(settings.fontSize, settings.opacity, settings.outline),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const sorted = [...entries].sort((a, b) => a.startMs - b.startMs);
+  for (const entry of sorted) {
+    // Entries recorded at a different player size are scaled to the script resolution
+    const scaleX = entry.overlayWidth > 0 ? playResX / entry.overlayWidth : 1;
+    const scaleY = entry.overlayHeight > 0 ? playResY / entry.overlayHeight : 1;
+    const startX = Math.round(entry.overlayWidth * scaleX);
+    const endX = Math.round((entry.overlayWidth - entry.distance) * scaleX);
+    const y = Math.round(entry.offsetY * scaleY);
+
+    const tags = [`\\move(${startX},${y},${endX},${y})`];
+    const rgb = parseCssColor(entry.color);
+    if (rgb) {
+      tags.push(`\\c${toAssOverrideColor(rgb)}`);
+    }
+    if (blur > 0) {
+      tags.push(`\\blur${blur}`);
+    }
+
+    lines.push(
+      [
+        'Dialogue: 0',
+        formatAssTime(entry.startMs),
+        formatAssTime(entry.startMs + entry.durationMs),
+        STYLE_NAME,
+        '',
+        '0',
+        '0',
+        '0',
+        '',
+        `{${tags.join('')}}${escapeAssText(entry.text)}`,
+      ].join(',')
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,94 @@
+/**
+ * Author Lists
+ *
+ * Matching and editing helpers for the per-author mute and highlight lists.
+ * Entries match by channel ID when both the entry and the message have one,
+ * otherwise by display name (case-insensitive, leading "@" ignored).
+ */
+
+import type { AuthorRef, ChatMessage } from '@app-types';
+
+/**
+ * YouTube channel ID (UC + 22 characters)
+ */
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+const normalizeName = (name: string): string => name.trim().replace(/^@/, '').toLowerCase();
+
+const isSameAuthor = (entry: AuthorRef, author: AuthorRef): boolean => {
+  if (entry.channelId && author.channelId) {
+    return entry.channelId === author.channelId;
+  }
+  return Boolean(
+    entry.name && author.name && normalizeName(entry.name) === normalizeName(author.name)
+  );
+};
+
+/**
+ * Author of a message as a list entry
+ * @returns null for messages without an author (e.g. imported comments)
+ */
+export const getAuthorRef = (message: ChatMessage): AuthorRef | null => {
+  const ref: AuthorRef = {};
+  if (message.authorChannelId) {
+    ref.channelId = message.authorChannelId;
+  }
+  if (message.author) {
+    ref.name = message.author;
+  }
+  return ref.channelId || ref.name ? ref : null;
+};
+
+/**
+ * Check if a message's author is in a list
+ */
+export const isListedAuthor = (list: readonly AuthorRef[], message: ChatMessage): boolean => {
+  if (list.length === 0) return false;
+  const author = getAuthorRef(message);
+  return author !== null && list.some((entry) => isSameAuthor(entry, author));
+};
+
+/**
+ * Add an author to a list (no-op if already listed)
+ */
+export const addAuthor = (list: readonly AuthorRef[], author: AuthorRef): AuthorRef[] =>
+  list.some((entry) => isSameAuthor(entry, author)) ? [...list] : [...list, author];
+
+/**
+ * Remove an author from a list
+ */
+export const removeAuthor = (list: readonly AuthorRef[], author: AuthorRef): AuthorRef[] =>
+  list.filter((entry) => !isSameAuthor(entry, author));
+
+/**
+ * Format a list for editing (one "channelId name", channel ID or name per line)
+ */
+export const formatAuthorList = (list: readonly AuthorRef[]): string =>
+  list
+    .map((entry) => [entry.channelId, entry.name].filter(Boolean).join(' '))
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Parse an edited list; a leading channel ID is split from the name
+ */
+export const parseAuthorList = (text: string): AuthorRef[] => {
+  let list: AuthorRef[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const [first = '', ...rest] = trimmed.split(/\s+/);
+    const entry: AuthorRef = {};
+    if (CHANNEL_ID_PATTERN.test(first)) {
+      entry.channelId = first;
+      if (rest.length > 0) {
+        entry.name = rest.join(' ');
+      }
+    } else {
+      entry.name = trimmed;
+    }
+    list = addAuthor(list, entry);
+  }
+  return list;
+};
@@ -0,0 +1,652 @@
+/**
+ * Chat Actions
+ *
+ * Normalizes the chat action JSON YouTube's live chat page already receives
+ * (the ytInitialData bootstrap and get_live_chat / get_live_chat_replay
+ * continuation responses) into ChatMessages. Independent of the rendered DOM,
+ * so it keeps working when the chat panel markup changes.
+ *
+ * Filtering policy mirrors the DOM scraper:
+ *   ✅ text        – liveChatTextMessageRenderer
+ *   ✅ superchat   – liveChatPaidMessageRenderer
+ *   ✅ sticker     – liveChatPaidStickerRenderer
+ *   ✅ membership  – liveChatMembershipItemRenderer (new member / milestone)
+ *                  – liveChatSponsorshipsGiftPurchaseAnnouncementRenderer
+ *                  – liveChatSponsorshipsGiftRedemptionAnnouncementRenderer
+ *   ❌ system      – viewer engagement, banners, placeholders, etc.
+ */
+
+import type {
+  AuthorBadge,
+  ChatBanner,
+  ChatMessage,
+  ContentSegment,
+  EmojiInfo,
+  MembershipInfo,
+  OverlaySettings,
+  PollChoice,
+  SuperChatInfo,
+} from '@app-types';
+import {
+  applyAuthorBadges,
+  determineSuperChatTier,
+  getAuthorTypeFromBadges,
+  isMembershipEventShown,
+  MAX_BANNER_TEXT_LENGTH,
+  meetsMinTextLength,
+  normalizeChatText,
+  parseGiftPurchase,
+  parseMemberMonths,
+  parseMembershipHeader,
+  resolveLinkUrl,
+  splitMentions,
+} from '@core/chat-text';
+import { parseAmount } from '@core/currency';
+import { isAllowedYouTubeImageUrl } from '@core/image-url';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getObject = (value: unknown, key: string): JsonObject | undefined => {
+  if (!isObject(value)) return undefined;
+  const child = value[key];
+  return isObject(child) ? child : undefined;
+};
+
+const getArray = (value: unknown, key: string): unknown[] => {
+  if (!isObject(value)) return [];
+  const child = value[key];
+  return Array.isArray(child) ? child : [];
+};
+
+const getString = (value: unknown, key: string): string | undefined => {
+  if (!isObject(value)) return undefined;
+  const child = value[key];
+  return typeof child === 'string' ? child : undefined;
+};
+
+/**
+ * Read a YouTube text object ({ simpleText } or { runs: [{ text }] })
+ */
+const readText = (value: unknown): string => {
+  const simpleText = getString(value, 'simpleText');
+  if (simpleText !== undefined) return simpleText;
+  return getArray(value, 'runs')
+    .map((run) => getString(run, 'text') ?? '')
+    .join('');
+};
+
+/**
+ * Pick the largest allowed thumbnail URL
+ */
+const readThumbnail = (
+  value: unknown
+): { url: string; width?: number; height?: number } | undefined => {
+  const thumbnails = getArray(value, 'thumbnails');
+  for (let i = thumbnails.length - 1; i >= 0; i--) {
+    const thumbnail = thumbnails[i];
+    let url = getString(thumbnail, 'url');
+    if (!url) continue;
+    // Protocol-relative URLs are common in chat payloads
+    if (url.startsWith('//')) url = `https:${url}`;
+    if (!isAllowedYouTubeImageUrl(url)) continue;
+
+    const result: { url: string; width?: number; height?: number } = { url };
+    if (isObject(thumbnail) && typeof thumbnail.width === 'number') {
+      result.width = thumbnail.width;
+    }
+    if (isObject(thumbnail) && typeof thumbnail.height === 'number') {
+      result.height = thumbnail.height;
+    }
+    return result;
+  }
+  return undefined;
+};
+
+/**
+ * Convert a YouTube ARGB integer color to a CSS rgb() string
+ */
+const argbToCss = (value: unknown): string | undefined => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  const r = (value >>> 16) & 0xff;
+  const g = (value >>> 8) & 0xff;
+  const b = value & 0xff;
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+/**
+ * Parse an emoji run into EmojiInfo
+ */
+const parseEmojiRun = (emoji: JsonObject): EmojiInfo | null => {
+  const image = readThumbnail(emoji.image);
+  if (!image) return null;
+
+  const emojiId = getString(emoji, 'emojiId');
+  const isCustom = emoji.isCustomEmoji === true;
+  const shortcut = getArray(emoji, 'shortcuts').find((item) => typeof item === 'string') as
+    | string
+    | undefined;
+  // Standard emoji ids are the Unicode character itself
+  const alt = isCustom ? (shortcut ?? '') : (emojiId ?? shortcut ?? '');
+
+  const emojiInfo: EmojiInfo = {
+    type: isCustom ? 'custom' : 'standard',
+    url: image.url,
+    alt,
+  };
+  if (image.width) {
+    emojiInfo.width = image.width;
+  }
+  if (image.height) {
+    emojiInfo.height = image.height;
+  }
+  if (emojiId) {
+    emojiInfo.id = emojiId;
+  }
+  return emojiInfo;
+};
+
+/**
+ * Parse a text run: links and channel mentions carry a navigation endpoint
+ */
+const parseTextRun = (run: unknown, text: string): ContentSegment[] => {
+  const endpoint = getObject(run, 'navigationEndpoint');
+  const browseId = getString(getObject(endpoint, 'browseEndpoint'), 'browseId');
+  if (browseId && text.trim().startsWith('@')) {
+    return [{ type: 'mention', content: text, channelId: browseId }];
+  }
+
+  const url =
+    getString(getObject(endpoint, 'urlEndpoint'), 'url') ??
+    getString(getObject(getObject(endpoint, 'commandMetadata'), 'webCommandMetadata'), 'url');
+  if (url) {
+    return [{ type: 'link', content: text, url: resolveLinkUrl(url) }];
+  }
+
+  return splitMentions(text);
+};
+
+/**
+ * Parse message runs into plain text and rich content segments
+ */
+const parseMessageRuns = (
+  value: unknown,
+  maxLength?: number
+): { text: string; content: ContentSegment[] } => {
+  const segments: ContentSegment[] = [];
+  let plainText = '';
+
+  for (const run of getArray(value, 'runs')) {
+    const text = getString(run, 'text');
+    if (text) {
+      segments.push(...parseTextRun(run, text));
+      plainText += text;
+      continue;
+    }
+
+    const emoji = getObject(run, 'emoji');
+    const emojiInfo = emoji ? parseEmojiRun(emoji) : null;
+    if (emojiInfo) {
+      segments.push({ type: 'emoji', emoji: emojiInfo });
+      plainText += emojiInfo.alt || '[emoji]';
+    }
+  }
+
+  const simpleText = getString(value, 'simpleText');
+  if (simpleText && segments.length === 0) {
+    segments.push({ type: 'text', content: simpleText });
+    plainText = simpleText;
+  }
+
+  return { text: normalizeChatText(plainText, maxLength), content: segments };
+};
+
+/**
+ * Author badges with role, tooltip, custom image and member tenure
+ */
+const parseAuthorBadges = (renderer: JsonObject): AuthorBadge[] => {
+  const badges: AuthorBadge[] = [];
+
+  for (const item of getArray(renderer, 'authorBadges')) {
+    const badgeRenderer = getObject(item, 'liveChatAuthorBadgeRenderer');
+    if (!badgeRenderer) continue;
+
+    const iconType = getString(getObject(badgeRenderer, 'icon'), 'iconType')?.toUpperCase() ?? '';
+    const image = readThumbnail(badgeRenderer.customThumbnail);
+    let type: AuthorBadge['type'] = 'other';
+    if (iconType === 'OWNER') type = 'owner';
+    else if (iconType === 'MODERATOR') type = 'moderator';
+    else if (iconType.startsWith('VERIFIED') || iconType === 'CHECK_CIRCLE_THICK') {
+      type = 'verified';
+    } else if (image) {
+      // Membership badges use the channel's custom badge image
+      type = 'member';
+    }
+
+    const badge: AuthorBadge = { type };
+    const label =
+      getString(badgeRenderer, 'tooltip') ??
+      getString(getObject(getObject(badgeRenderer, 'accessibility'), 'accessibilityData'), 'label');
+    if (label) {
+      badge.label = label;
+    }
+    if (image) {
+      badge.imageUrl = image.url;
+    }
+    if (type === 'member' && label) {
+      const memberMonths = parseMemberMonths(label);
+      if (memberMonths !== undefined) {
+        badge.memberMonths = memberMonths;
+      }
+    }
+    badges.push(badge);
+  }
+
+  return badges;
+};
+
+/**
+ * Build Super Chat info from a paid message or paid sticker renderer
+ */
+const parseSuperChat = (
+  renderer: JsonObject,
+  kind: ChatMessage['kind'],
+  settings: Readonly<OverlaySettings> | undefined
+): SuperChatInfo | null => {
+  const amount = readText(renderer.purchaseAmountText).trim();
+  if (!amount) return null;
+  const parsedAmount = parseAmount(amount);
+
+  // Stickers carry the tier color on the amount chip instead of a header
+  const isSticker = kind === 'sticker';
+  const backgroundColor = argbToCss(
+    isSticker ? renderer.moneyChipBackgroundColor : renderer.bodyBackgroundColor
+  );
+  const headerBackgroundColor = isSticker ? undefined : argbToCss(renderer.headerBackgroundColor);
+
+  const superChat: SuperChatInfo = {
+    amount,
+    tier: determineSuperChatTier(backgroundColor, parsedAmount, settings),
+  };
+
+  if (parsedAmount) {
+    superChat.value = parsedAmount.value;
+    if (parsedAmount.currency) {
+      superChat.currency = parsedAmount.currency;
+    }
+  }
+  if (backgroundColor) {
+    superChat.backgroundColor = backgroundColor;
+  }
+  if (headerBackgroundColor) {
+    superChat.headerBackgroundColor = headerBackgroundColor;
+  }
+
+  if (isSticker) {
+    const sticker = readThumbnail(renderer.sticker);
+    if (sticker) {
+      superChat.stickerUrl = sticker.url;
+    }
+    const label = getString(
+      getObject(getObject(renderer.sticker, 'accessibility'), 'accessibilityData'),
+      'label'
+    );
+    if (label) {
+      superChat.stickerLabel = normalizeChatText(label);
+    }
+  }
+  return superChat;
+};
+
+/**
+ * Chat item renderers shown on the overlay
+ */
+const CHAT_ITEM_RENDERERS: readonly (readonly [string, ChatMessage['kind']])[] = [
+  ['liveChatTextMessageRenderer', 'text'],
+  ['liveChatPaidMessageRenderer', 'superchat'],
+  ['liveChatPaidStickerRenderer', 'sticker'],
+  ['liveChatMembershipItemRenderer', 'membership'],
+  ['liveChatSponsorshipsGiftPurchaseAnnouncementRenderer', 'membership'],
+  ['liveChatSponsorshipsGiftRedemptionAnnouncementRenderer', 'membership'],
+];
+
+/**
+ * Gift purchase announcements keep the author and header text in a nested header renderer
+ */
+const getSponsorshipsHeader = (renderer: JsonObject): JsonObject | undefined =>
+  getObject(getObject(renderer, 'header'), 'liveChatSponsorshipsHeaderRenderer');
+
+/**
+ * Classify a membership event renderer
+ */
+const parseMembershipInfo = (rendererKey: string, renderer: JsonObject): MembershipInfo => {
+  if (rendererKey === 'liveChatSponsorshipsGiftPurchaseAnnouncementRenderer') {
+    return parseGiftPurchase(readText(getSponsorshipsHeader(renderer)?.primaryText));
+  }
+  if (rendererKey === 'liveChatSponsorshipsGiftRedemptionAnnouncementRenderer') {
+    return { type: 'redemption' };
+  }
+  return parseMembershipHeader(readText(renderer.headerPrimaryText));
+};
+
+/**
+ * When the item was posted (timestampUsec): a continuation response holds
+ * several seconds of chat, which must not be timed as one burst
+ * Falls back to now, and never lies in the future (client clock behind)
+ */
+const getPostedTime = (renderer: JsonObject): number => {
+  const now = Date.now();
+  const usec = Number(getString(renderer, 'timestampUsec'));
+  return Number.isFinite(usec) && usec > 0 ? Math.min(now, Math.floor(usec / 1000)) : now;
+};
+
+/**
+ * Normalize a single chat item renderer
+ */
+const parseChatItem = (
+  item: unknown,
+  settings: Readonly<OverlaySettings> | undefined
+): ChatMessage | null => {
+  const match = CHAT_ITEM_RENDERERS.find(([key]) => getObject(item, key));
+  // Engagement messages, banners, placeholders, etc.
+  if (!match) return null;
+
+  const [rendererKey, kind] = match;
+  const renderer = getObject(item, rendererKey);
+  if (!renderer) return null;
+
+  const membership = kind === 'membership' ? parseMembershipInfo(rendererKey, renderer) : undefined;
+  if (membership && !isMembershipEventShown(membership, settings)) return null;
+
+  // Author details of gift purchases live in the header renderer
+  const authorRenderer =
+    membership?.type === 'gift' ? (getSponsorshipsHeader(renderer) ?? renderer) : renderer;
+
+  // System messages have no author
+  const author = readText(authorRenderer.authorName).trim();
+  if (!author) return null;
+
+  const authorBadges = parseAuthorBadges(authorRenderer);
+  const authorType = getAuthorTypeFromBadges(authorBadges);
+  let { text, content } = parseMessageRuns(
+    membership?.type === 'gift' ? authorRenderer.primaryText : renderer.message
+  );
+
+  if (kind === 'membership' && !text) {
+    // "New member" / "Member for 6 months" header when the member typed nothing
+    const header = parseMessageRuns(renderer.headerSubtext);
+    text = header.text;
+    content = header.content;
+  }
+
+  if (kind === 'text') {
+    if (!text) return null;
+    // Privileged authors bypass the short-text filter, as in the DOM scraper
+    const privileged =
+      authorType === 'moderator' || authorType === 'owner' || authorType === 'member';
+    if (!privileged && !meetsMinTextLength(text, settings)) return null;
+  }
+
+  const message: ChatMessage = {
+    text,
+    kind,
+    timestamp: getPostedTime(renderer),
+    author,
+    authorType,
+  };
+
+  const itemId = getString(renderer, 'id');
+  if (itemId) {
+    message.id = itemId;
+  }
+
+  const channelId = getString(renderer, 'authorExternalChannelId');
+  if (channelId) {
+    message.authorChannelId = channelId;
+  }
+  applyAuthorBadges(message, authorBadges);
+
+  if (content.length > 0) {
+    message.content = content;
+  }
+
+  const photo = readThumbnail(authorRenderer.authorPhoto);
+  if (photo) {
+    message.authorPhotoUrl = photo.url;
+  }
+
+  if (membership) {
+    message.membership = membership;
+  }
+
+  if (kind === 'superchat' || kind === 'sticker') {
+    const superChat = parseSuperChat(renderer, kind, settings);
+    if (superChat) {
+      message.superChat = superChat;
+    }
+  }
+
+  if (kind === 'sticker') {
+    // Stickers have no message body; the description stands in for exports
+    if (!message.superChat?.stickerUrl) return null;
+    message.text = message.superChat.stickerLabel ?? '';
+  }
+
+  return message;
+};
+
+/**
+ * Read a pinned message banner (other banner types, e.g. raids, are ignored)
+ */
+const parsePinnedBanner = (renderer: JsonObject): ChatBanner | null => {
+  const message = getObject(getObject(renderer, 'contents'), 'liveChatTextMessageRenderer');
+  if (!message) return null;
+
+  const { text } = parseMessageRuns(message.message, MAX_BANNER_TEXT_LENGTH);
+  if (!text) return null;
+
+  const banner: ChatBanner = { kind: 'pinned', text };
+  const header = normalizeChatText(
+    readText(getObject(getObject(renderer, 'header'), 'liveChatBannerHeaderRenderer')?.text),
+    MAX_BANNER_TEXT_LENGTH
+  );
+  if (header) {
+    banner.header = header;
+  }
+  const author = readText(message.authorName).trim();
+  if (author) {
+    banner.author = author;
+  }
+  return banner;
+};
+
+/**
+ * Read a poll renderer (question, choices and vote shares)
+ */
+const parsePollBanner = (poll: JsonObject): ChatBanner | null => {
+  const header = getObject(getObject(poll, 'header'), 'pollHeaderRenderer');
+  const { text } = parseMessageRuns(header?.pollQuestion, MAX_BANNER_TEXT_LENGTH);
+  if (!text) return null;
+
+  const choices: PollChoice[] = [];
+  for (const item of getArray(poll, 'choices')) {
+    const choiceText = parseMessageRuns(getObject(item, 'text'), MAX_BANNER_TEXT_LENGTH).text;
+    if (!choiceText) continue;
+
+    const choice: PollChoice = { text: choiceText };
+    const percentage = readText(getObject(item, 'votePercentage')).trim();
+    if (percentage) {
+      choice.percentage = percentage;
+    }
+    choices.push(choice);
+  }
+
+  const banner: ChatBanner = { kind: 'poll', text, choices };
+  const metadata = normalizeChatText(readText(header?.metadataText), MAX_BANNER_TEXT_LENGTH);
+  if (metadata) {
+    banner.header = metadata;
+  }
+  return banner;
+};
+
+/**
+ * Chat events extracted from actions, in payload order
+ * Banner events carry the action/panel ID used later to dismiss them;
+ * poll updates have no ID and refer to the poll currently shown.
+ */
+export type ChatActionEvent =
+  | { type: 'add'; message: ChatMessage }
+  | { type: 'delete'; itemId: string }
+  | { type: 'delete-author'; channelId: string }
+  | { type: 'replace'; itemId: string; message: ChatMessage | null }
+  | { type: 'banner'; bannerId: string | null; banner: ChatBanner }
+  | { type: 'banner-remove'; bannerId: string };
+
+/**
+ * Normalize a list of chat actions into events
+ * Replay actions wrap the real action and carry the video offset.
+ */
+export const parseChatActions = (
+  actions: readonly unknown[],
+  settings?: Readonly<OverlaySettings>
+): ChatActionEvent[] => {
+  const events: ChatActionEvent[] = [];
+
+  const parseItem = (item: unknown, videoOffsetMs: number | null): ChatMessage | null => {
+    const message = parseChatItem(item, settings);
+    if (message && videoOffsetMs !== null) {
+      message.videoOffsetMs = videoOffsetMs;
+    }
+    return message;
+  };
+
+  const visit = (action: unknown, videoOffsetMs: number | null): void => {
+    const replay = getObject(action, 'replayChatItemAction');
+    if (replay) {
+      const offset = Number.parseInt(getString(replay, 'videoOffsetTimeMsec') ?? '', 10);
+      for (const inner of getArray(replay, 'actions')) {
+        visit(inner, Number.isFinite(offset) ? offset : null);
+      }
+      return;
+    }
+
+    const addAction = getObject(action, 'addChatItemAction');
+    if (addAction) {
+      const message = parseItem(addAction.item, videoOffsetMs);
+      if (message) {
+        events.push({ type: 'add', message });
+      }
+      return;
+    }
+
+    // Moderator deletion or author retraction of a single message
+    const deleteAction = getObject(action, 'markChatItemAsDeletedAction');
+    const deletedId = getString(deleteAction, 'targetItemId');
+    if (deletedId) {
+      events.push({ type: 'delete', itemId: deletedId });
+      return;
+    }
+
+    // Author timed out or banned: all of their messages are removed
+    const authorAction = getObject(action, 'markChatItemsByAuthorAsDeletedAction');
+    const channelId = getString(authorAction, 'externalChannelId');
+    if (channelId) {
+      events.push({ type: 'delete-author', channelId });
+      return;
+    }
+
+    const replaceAction = getObject(action, 'replaceChatItemAction');
+    const replacedId = getString(replaceAction, 'targetItemId');
+    if (replaceAction && replacedId) {
+      events.push({
+        type: 'replace',
+        itemId: replacedId,
+        message: parseItem(replaceAction.replacementItem, videoOffsetMs),
+      });
+      return;
+    }
+
+    visitBanner(action);
+  };
+
+  // Pinned messages (banners) and polls (action panels)
+  const visitBanner = (action: unknown): void => {
+    const addBanner = getObject(
+      getObject(getObject(action, 'addBannerToLiveChatCommand'), 'bannerRenderer'),
+      'liveChatBannerRenderer'
+    );
+    if (addBanner) {
+      const bannerId = getString(addBanner, 'actionId') ?? null;
+      const poll = getObject(getObject(addBanner, 'contents'), 'pollRenderer');
+      const banner = poll ? parsePollBanner(poll) : parsePinnedBanner(addBanner);
+      if (banner) {
+        events.push({ type: 'banner', bannerId, banner });
+      }
+      return;
+    }
+
+    const panel = getObject(
+      getObject(getObject(action, 'showLiveChatActionPanelAction'), 'panelToShow'),
+      'liveChatActionPanelRenderer'
+    );
+    if (panel) {
+      const poll = getObject(getObject(panel, 'contents'), 'pollRenderer');
+      const banner = poll ? parsePollBanner(poll) : null;
+      if (banner) {
+        events.push({ type: 'banner', bannerId: getString(panel, 'id') ?? null, banner });
+      }
+      return;
+    }
+
+    const updatedPoll = getObject(
+      getObject(getObject(action, 'updateLiveChatPollAction'), 'pollToUpdate'),
+      'pollRenderer'
+    );
+    if (updatedPoll) {
+      const banner = parsePollBanner(updatedPoll);
+      if (banner) {
+        events.push({ type: 'banner', bannerId: null, banner });
+      }
+      return;
+    }
+
+    const removedId =
+      getString(getObject(action, 'removeBannerForLiveChatCommand'), 'targetActionId') ??
+      getString(getObject(action, 'closeLiveChatActionPanelAction'), 'targetPanelId');
+    if (removedId) {
+      events.push({ type: 'banner-remove', bannerId: removedId });
+    }
+  };
+
+  for (const action of actions) {
+    try {
+      visit(action, null);
+    } catch (error) {
+      console.warn('[ChatActions] Failed to parse chat action:', error);
+    }
+  }
+  return events;
+};
+
+/**
+ * Actions embedded in the live chat page bootstrap (window.ytInitialData)
+ */
+export const getInitialChatActions = (initialData: unknown): unknown[] =>
+  getArray(getObject(getObject(initialData, 'contents'), 'liveChatRenderer'), 'actions');
+
+/**
+ * Check if the live chat page bootstrap describes a chat replay
+ */
+export const isReplayChatData = (initialData: unknown): boolean =>
+  getObject(getObject(initialData, 'contents'), 'liveChatRenderer')?.isReplay === true;
+
+/**
+ * Actions in a get_live_chat / get_live_chat_replay continuation response
+ */
+export const getContinuationChatActions = (response: unknown): unknown[] =>
+  getArray(
+    getObject(getObject(response, 'continuationContents'), 'liveChatContinuation'),
+    'actions'
+  );
@@ -0,0 +1,197 @@
+/**
+ * Chat Banner
+ *
+ * Reads the pinned message and the poll shown above the live chat DOM and
+ * reports when they appear, change, or are dismissed. Banners live outside
+ * the chat item list, so they are watched separately from chat messages.
+ */
+
+import type { ChatBanner, PollChoice } from '@app-types';
+import { MAX_BANNER_TEXT_LENGTH, normalizeChatText } from '@core/chat-text';
+import type { BannerCallback } from '@core/message-source';
+
+/**
+ * Configuration constants
+ */
+const CONFIG = {
+  /** Delay before re-reading banners after a burst of mutations (ms) */
+  REFRESH_DELAY_MS: 250,
+} as const;
+
+const BANNER_KINDS: readonly ChatBanner['kind'][] = ['pinned', 'poll'];
+
+/**
+ * Read element text, using alt text for emoji images
+ */
+const readText = (element: Element | null): string => {
+  if (!element) return '';
+
+  let text = '';
+  const walk = (node: Node): void => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    if ((node as Element).tagName.toLowerCase() === 'img') {
+      text += (node as HTMLImageElement).alt;
+      return;
+    }
+    for (const child of node.childNodes) {
+      walk(child);
+    }
+  };
+  walk(element);
+
+  return normalizeChatText(text, MAX_BANNER_TEXT_LENGTH);
+};
+
+/**
+ * Dismissed banners may stay in the DOM with the hidden attribute
+ */
+const isShown = (element: Element): boolean => !element.closest('[hidden]');
+
+/**
+ * Read the pinned message banner
+ */
+const readPinnedBanner = (root: ParentNode): ChatBanner | null => {
+  for (const banner of root.querySelectorAll('yt-live-chat-banner-renderer')) {
+    if (!isShown(banner)) continue;
+
+    // Other banner types (e.g. raids) have no chat message inside
+    const message = banner.querySelector('yt-live-chat-text-message-renderer');
+    if (!message) continue;
+
+    const text = readText(message.querySelector('#message'));
+    if (!text) continue;
+
+    const pinned: ChatBanner = { kind: 'pinned', text };
+    const header = readText(banner.querySelector('yt-live-chat-banner-header-renderer'));
+    if (header) {
+      pinned.header = header;
+    }
+    const author = readText(message.querySelector('#author-name'));
+    if (author) {
+      pinned.author = author;
+    }
+    return pinned;
+  }
+  return null;
+};
+
+/**
+ * Read the active poll (question, choices and vote shares)
+ */
+const readPollBanner = (root: ParentNode): ChatBanner | null => {
+  for (const poll of root.querySelectorAll('yt-live-chat-poll-renderer')) {
+    if (!isShown(poll)) continue;
+
+    const text = readText(poll.querySelector('#question-text'));
+    if (!text) continue;
+
+    const choices: PollChoice[] = [];
+    for (const choiceElement of poll.querySelectorAll('yt-live-chat-poll-choice')) {
+      const choiceText = readText(choiceElement.querySelector('#label-text'));
+      if (!choiceText) continue;
+
+      const choice: PollChoice = { text: choiceText };
+      const percentage = readText(choiceElement.querySelector('#vote-percentage'));
+      if (percentage) {
+        choice.percentage = percentage;
+      }
+      choices.push(choice);
+    }
+
+    const banner: ChatBanner = { kind: 'poll', text, choices };
+    const header = readText(poll.querySelector('#metadata-text'));
+    if (header) {
+      banner.header = header;
+    }
+    return banner;
+  }
+  return null;
+};
+
+/**
+ * Watches the chat renderer for pinned message and poll changes
+ */
+export class ChatBannerWatcher {
+  private observer: MutationObserver | null = null;
+  private refreshTimer: number | null = null;
+  /** Last reported banner per kind (serialized, for change detection) */
+  private readonly reported = new Map<ChatBanner['kind'], string>();
+
+  /**
+   * @param root chat renderer element containing banners and the item list
+   * @param itemList chat item list (mutations inside it are ignored)
+   */
+  constructor(
+    private readonly root: Element,
+    private readonly itemList: Element | null,
+    private readonly onBanner: BannerCallback
+  ) {}
+
+  /**
+   * Report the current banners and watch for changes
+   */
+  start(): void {
+    this.stop();
+
+    this.observer = new MutationObserver((mutations) => {
+      // Chat messages arrive constantly; only banner-area changes matter
+      if (mutations.some((mutation) => !this.itemList?.contains(mutation.target))) {
+        this.scheduleRefresh();
+      }
+    });
+    this.observer.observe(this.root, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['hidden'],
+    });
+
+    this.refresh();
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer !== null) return;
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, CONFIG.REFRESH_DELAY_MS);
+  }
+
+  private refresh(): void {
+    const banners: Record<ChatBanner['kind'], ChatBanner | null> = {
+      pinned: readPinnedBanner(this.root),
+      poll: readPollBanner(this.root),
+    };
+
+    for (const kind of BANNER_KINDS) {
+      const banner = banners[kind];
+      const serialized = banner ? JSON.stringify(banner) : '';
+      if ((this.reported.get(kind) ?? '') === serialized) continue;
+
+      if (banner) {
+        this.reported.set(kind, serialized);
+      } else {
+        this.reported.delete(kind);
+      }
+      this.onBanner(kind, banner);
+    }
+  }
+
+  /**
+   * Stop watching (reported banners are left to the caller to clear)
+   */
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    if (this.refreshTimer !== null) {
+      window.clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.reported.clear();
+  }
+}
@@ -3,85 +3,82 @@
  *
  * Finds and monitors YouTube live chat DOM for new messages.
  * Supports both iframe and in-page chat rendering.
+ * This is the default MessageSource implementation.
  */
 
 import type {
+  AuthorBadge,
   ChatMessage,
   ContentSegment,
   EmojiInfo,
+  MembershipInfo,
   OverlaySettings,
   SuperChatInfo,
 } from '@app-types';
+import { ChatBannerWatcher } from '@core/chat-banner';
+import {
+  applyAuthorBadges,
+  determineSuperChatTier,
+  getAuthorTypeFromBadges,
+  isMembershipEventShown,
+  meetsMinTextLength,
+  normalizeChatText,
+  parseGiftPurchase,
+  parseMemberMonths,
+  parseMembershipHeader,
+  resolveLinkUrl,
+  splitMentions,
+} from '@core/chat-text';
+import { parseAmount } from '@core/currency';
 import { findElementMatch, sleep } from '@core/dom';
 import { isAllowedYouTubeImageUrl } from '@core/image-url';
+import type {
+  BannerCallback,
+  DedupeStats,
+  MessageCallback,
+  MessageSource,
+  RetractCallback,
+} from '@core/message-source';
+import { getSelectors } from '@core/selectors';
+
+/**
+ * Number of recent chat item IDs remembered for de-duplication and deletion tracking
+ */
+const MAX_TRACKED_IDS = 2000;
 
-const CHAT_FRAME_SELECTORS = ['ytd-live-chat-frame#chat', '#chat', 'ytd-live-chat-frame'] as const;
-
-const CHAT_IFRAME_SELECTORS = [
-  'iframe[src*="live_chat"]',
-  'iframe#chatframe',
-  'ytd-live-chat-frame iframe',
-  '#chat iframe',
-] as const;
-
-const CHAT_IFRAME_ITEM_SELECTORS = [
-  '#items.yt-live-chat-item-list-renderer',
-  '#items',
-  'yt-live-chat-item-list-renderer #items',
-] as const;
-
-const CHAT_CONTAINER_SELECTORS = [
-  // Most specific selectors first
-  '#chat #items.yt-live-chat-item-list-renderer',
-  '#items.yt-live-chat-item-list-renderer',
-  'yt-live-chat-item-list-renderer #items',
-  'ytd-live-chat-frame yt-live-chat-item-list-renderer',
-  'yt-live-chat-app yt-live-chat-item-list-renderer',
-
-  // Frame-based selectors
-  'ytd-live-chat-frame #items',
-
-  // App-based selectors
-  'yt-live-chat-app #items',
-
-  // Chat panel selectors
-  '#chat-container #items',
-  '#chat #items',
-  'ytd-live-chat #items',
-
-  // Tag-based selector
-  'yt-live-chat-item-list-renderer',
-
-  // Generic selectors (LAST - most likely to match wrong elements!)
-  // NOTE: #items can match sidebar elements, so we validate it
-  '#items',
-] as const;
-
-const CHAT_TOGGLE_BUTTON_SELECTORS = [
-  // Theater mode toggle button
-  'ytd-toggle-button-renderer button[aria-label*="chat" i]',
-  'ytd-toggle-button-renderer button[aria-label*="채팅" i]',
-  // Live chat button
-  'button#show-hide-button',
-  // Engagement panel toggle
-  'ytd-engagement-panel-title-header-renderer button',
-  // Engagement panel list buttons
-  'ytd-engagement-panel-section-list-renderer button[aria-label*="chat" i]',
-  'ytd-engagement-panel-section-list-renderer button[aria-label*="채팅" i]',
-  // Generic chat-related buttons (ignore overlay settings button)
-  'button:not(#yt-chat-overlay-settings-button)[aria-label*="show chat" i]',
-  'button:not(#yt-chat-overlay-settings-button)[aria-label*="open chat" i]',
-  'button:not(#yt-chat-overlay-settings-button)[aria-label*="chat" i]',
-  'button:not(#yt-chat-overlay-settings-button)[aria-label*="채팅" i]',
-] as const;
-
-export type MessageCallback = (message: ChatMessage) => void;
-
-export class ChatSource {
+/**
+ * Stall watchdog timing
+ */
+const WATCHDOG = {
+  /** Interval between container health checks (ms) */
+  INTERVAL_MS: 5000,
+  /** Without mutations for this long, check whether YouTube swapped the container (ms) */
+  STALL_MS: 60000,
+  /** Container discovery attempts per recovery */
+  RECOVERY_ATTEMPTS: 3,
+  /** Delay between discovery attempts during recovery (ms) */
+  RECOVERY_RETRY_MS: 2000,
+} as const;
+
+export class ChatSource implements MessageSource {
   private observer: MutationObserver | null = null;
+  /** Watches the is-deleted attribute YouTube sets on deleted items */
+  private deletionObserver: MutationObserver | null = null;
   private chatContainer: Element | null = null;
   private callback: MessageCallback | null = null;
+  private retractCallback: RetractCallback | null = null;
+  private bannerCallback: BannerCallback | null = null;
+  private bannerWatcher: ChatBannerWatcher | null = null;
+  private watchdogTimer: number | null = null;
+  private recovering = false;
+  private recoveries = 0;
+  /** Last mutation seen on the container (any change, not just new messages) */
+  private lastMutationTime = 0;
+  /** Emitted chat item IDs (insertion ordered, bounded) */
+  private readonly seenIds = new Set<string>();
+  private duplicatesDropped = 0;
   private lastMessageTime = 0;
+  private replayMode = false;
 
   constructor(private readonly getSettings: (() => Readonly<OverlaySettings>) | null = null) {}
 
@@ -116,7 +113,7 @@ export class ChatSource {
           continue;
         }
 
-        const containerMatch = findElementMatch<Element>(CHAT_IFRAME_ITEM_SELECTORS, {
+        const containerMatch = findElementMatch<Element>(getSelectors('chatItemList'), {
           root: iframeDoc,
         });
         if (containerMatch) {
@@ -154,17 +151,19 @@ export class ChatSource {
 
     // Try iframe first (multiple selectors)
     let iframe: HTMLIFrameElement | null = null;
-    for (const selector of CHAT_IFRAME_SELECTORS) {
+    for (const selector of getSelectors('chatIframe')) {
       iframe = document.querySelector<HTMLIFrameElement>(selector);
       if (iframe) {
         console.log(`[YT Chat Overlay] Chat iframe found with selector: ${selector}`);
         console.log('[YT Chat Overlay] iframe src:', iframe.src);
+        this.replayMode = iframe.src.includes('live_chat_replay');
         break;
       }
     }
 
     if (!iframe) {
       console.log('[YT Chat Overlay] Chat iframe: not found');
+      this.replayMode = window.location.pathname.startsWith('/live_chat_replay');
     }
 
     if (iframe) {
@@ -183,8 +182,9 @@ export class ChatSource {
     }
 
     // Try in-page chat (ordered by specificity - most specific first!)
-    console.log(`[YT Chat Overlay] Trying ${CHAT_CONTAINER_SELECTORS.length} in-page selectors...`);
-    for (const selector of CHAT_CONTAINER_SELECTORS) {
+    const containerSelectors = getSelectors('chatContainer');
+    console.log(`[YT Chat Overlay] Trying ${containerSelectors.length} in-page selectors...`);
+    for (const selector of containerSelectors) {
       const element = document.querySelector(selector);
       if (element) {
         // Validate: check if this is actually a chat-related element
@@ -309,7 +309,7 @@ export class ChatSource {
     );
 
     for (let i = 0; i < maxAttempts; i++) {
-      for (const selector of CHAT_FRAME_SELECTORS) {
+      for (const selector of getSelectors('chatFrame')) {
         const chatFrame = document.querySelector(selector) as HTMLElement;
         if (chatFrame) {
           console.log(
@@ -357,7 +357,7 @@ export class ChatSource {
   private async tryOpenChatPanelWithoutFrame(): Promise<boolean> {
     console.log('[YT Chat Overlay] Chat frame missing, attempting to open chat panel...');
 
-    for (const selector of CHAT_TOGGLE_BUTTON_SELECTORS) {
+    for (const selector of getSelectors('chatToggleButton')) {
       try {
         const button = document.querySelector(selector) as HTMLButtonElement;
         if (button) {
@@ -395,7 +395,7 @@ export class ChatSource {
     console.log('[YT Chat Overlay] Chat panel is collapsed, attempting to open...');
 
     // Try to find and click the chat toggle button
-    for (const selector of CHAT_TOGGLE_BUTTON_SELECTORS) {
+    for (const selector of getSelectors('chatToggleButton')) {
       try {
         const button = document.querySelector(selector) as HTMLButtonElement;
         if (button) {
@@ -447,11 +447,9 @@ export class ChatSource {
   }
 
   /**
-   * Start monitoring chat
+   * Wait for the chat frame and make sure the chat panel is open
    */
-  async start(callback: MessageCallback): Promise<boolean> {
-    this.callback = callback;
-
+  private async prepareChatFrame(): Promise<void> {
     // First, wait for chat frame element to exist in DOM
     let chatFrame = await this.waitForChatFrame();
     if (!chatFrame) {
@@ -473,13 +471,42 @@ export class ChatSource {
 
     // Wait a bit for chat iframe to load if it was just opened
     await sleep(500);
+  }
+
+  /**
+   * Check if the script is running inside a chat page (e.g. popout chat window)
+   */
+  private isChatPage(): boolean {
+    return /^\/live_chat(_replay)?\/?$/.test(window.location.pathname);
+  }
+
+  /**
+   * Start monitoring chat
+   */
+  async start(
+    callback: MessageCallback,
+    onRetract?: RetractCallback,
+    onBanner?: BannerCallback
+  ): Promise<boolean> {
+    this.callback = callback;
+    this.retractCallback = onRetract ?? null;
+    this.bannerCallback = onBanner ?? null;
+
+    if (this.isChatPage()) {
+      // Running inside a chat page (popout window): chat is rendered in-page,
+      // there is no frame to wait for and no panel toggle to click
+      console.log('[YT Chat Overlay] Running inside a chat page, skipping chat frame lookup');
+    } else {
+      await this.prepareChatFrame();
+    }
 
     // Find chat container (with retries)
     console.log('[YT Chat Overlay] Starting chat container search (10 attempts)...');
+    let chatContainer: Element | null = null;
     for (let i = 0; i < 10; i++) {
       console.log(`[YT Chat Overlay] Attempt ${i + 1}/10...`);
-      this.chatContainer = await this.findChatContainer();
-      if (this.chatContainer) {
+      chatContainer = await this.findChatContainer();
+      if (chatContainer) {
         console.log(`[YT Chat Overlay] Chat container found on attempt ${i + 1}`);
         break;
       }
@@ -489,7 +516,7 @@ export class ChatSource {
       await sleep(delay);
     }
 
-    if (!this.chatContainer) {
+    if (!chatContainer) {
       console.warn('[YT Chat Overlay] Chat container not found after 10 attempts');
       console.warn('[YT Chat Overlay] Possible reasons:');
       console.warn('  1. Chat is hidden or disabled for this video');
@@ -499,19 +526,169 @@ export class ChatSource {
       return false;
     }
 
-    // Setup MutationObserver
+    this.attachToContainer(chatContainer);
+    this.startWatchdog();
+
+    console.log('[YT Chat Overlay] Chat monitoring started successfully');
+    if (this.replayMode) {
+      console.log('[YT Chat Overlay] Chat replay detected (VOD mode)');
+    }
+    console.log('[YT Chat Overlay] Watching for new messages...');
+    return true;
+  }
+
+  /**
+   * Observe a chat container for new and deleted items
+   */
+  private attachToContainer(chatContainer: Element): void {
+    this.chatContainer = chatContainer;
+    this.lastMutationTime = Date.now();
+
     this.observer = new MutationObserver((mutations) => {
       this.handleMutations(mutations);
     });
 
-    this.observer.observe(this.chatContainer, {
-      childList: true,
-      subtree: false,
+    // New items are direct children; nested insertions (emoji, badges, lazily
+    // loaded images) would only wake the observer on busy chats
+    this.observer.observe(chatContainer, { childList: true });
+
+    this.deletionObserver = new MutationObserver((mutations) => {
+      for (const mutation of mutations) {
+        this.handleItemUpdate(mutation.target);
+      }
+    });
+    this.deletionObserver.observe(chatContainer, {
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['is-deleted'],
     });
 
-    console.log('[YT Chat Overlay] Chat monitoring started successfully');
-    console.log('[YT Chat Overlay] Watching for new messages...');
-    return true;
+    if (this.bannerCallback) {
+      // Pinned messages and polls sit above the item list in the chat renderer
+      const chatRoot =
+        chatContainer.closest('yt-live-chat-renderer') ?? chatContainer.ownerDocument.body;
+      this.bannerWatcher = new ChatBannerWatcher(chatRoot, chatContainer, this.bannerCallback);
+      this.bannerWatcher.start();
+    }
+  }
+
+  private detachFromContainer(): void {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+    if (this.deletionObserver) {
+      this.deletionObserver.disconnect();
+      this.deletionObserver = null;
+    }
+    this.bannerWatcher?.stop();
+    this.bannerWatcher = null;
+    this.chatContainer = null;
+  }
+
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    this.watchdogTimer = window.setInterval(() => {
+      void this.checkContainer();
+    }, WATCHDOG.INTERVAL_MS);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogTimer !== null) {
+      window.clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  /**
+   * Watchdog tick: re-attach if the observed container went away
+   */
+  private async checkContainer(): Promise<void> {
+    if (this.recovering || !this.callback) return;
+
+    const reason = this.chatContainer
+      ? this.getStallReason(this.chatContainer)
+      : 'no chat container after a failed recovery';
+    if (reason) {
+      await this.recover(reason);
+    }
+  }
+
+  /**
+   * Check whether the observed container can still deliver messages
+   * @returns why it cannot, or null if it looks healthy
+   */
+  private getStallReason(chatContainer: Element): string | null {
+    // Top chat / Live chat switches replace #items; an iframe reload leaves
+    // the old document without a window while its nodes stay "connected"
+    if (!chatContainer.isConnected || !chatContainer.ownerDocument.defaultView) {
+      return 'chat container detached';
+    }
+
+    if (Date.now() - this.lastMutationTime < WATCHDOG.STALL_MS) return null;
+
+    const current = this.probeChatContainer();
+    if (current && current !== chatContainer) {
+      return `no chat activity for ${WATCHDOG.STALL_MS / 1000}s and the chat container was replaced`;
+    }
+
+    // Same container: the chat is just quiet, check again after another window
+    this.lastMutationTime = Date.now();
+    return null;
+  }
+
+  /**
+   * Look up the current chat item list without waiting or retrying
+   */
+  private probeChatContainer(): Element | null {
+    let root: Document = document;
+    const iframe = findElementMatch<HTMLIFrameElement>(getSelectors('chatIframe'))?.element;
+    try {
+      if (iframe?.contentDocument) {
+        root = iframe.contentDocument;
+      }
+    } catch {
+      // Cross-origin frame: fall back to in-page chat
+    }
+
+    return (
+      findElementMatch<Element>(getSelectors('chatItemList'), {
+        root,
+        // In-page #items can match sidebar elements
+        predicate: (element) => root !== document || this.validateChatElement(element),
+      })?.element ?? null
+    );
+  }
+
+  /**
+   * Re-run container discovery and observe the new container
+   */
+  private async recover(reason: string): Promise<void> {
+    const callback = this.callback;
+    this.recovering = true;
+    console.warn(`[YT Chat Overlay] Watchdog: ${reason}, re-attaching...`);
+    this.detachFromContainer();
+
+    try {
+      for (let i = 0; i < WATCHDOG.RECOVERY_ATTEMPTS; i++) {
+        const chatContainer = await this.findChatContainer();
+        // stop() may have been called while searching
+        if (this.callback !== callback) return;
+
+        if (chatContainer) {
+          this.attachToContainer(chatContainer);
+          this.recoveries++;
+          console.log(
+            `[YT Chat Overlay] Watchdog: chat re-attached (recovery #${this.recoveries}, reason: ${reason})`
+          );
+          return;
+        }
+        await sleep(WATCHDOG.RECOVERY_RETRY_MS);
+      }
+      console.warn('[YT Chat Overlay] Watchdog: chat container not found, retrying on next check');
+    } finally {
+      this.recovering = false;
+    }
   }
 
   /**
@@ -521,46 +698,109 @@ export class ChatSource {
     if (!this.callback) return;
 
     const now = Date.now();
+    this.lastMutationTime = now;
 
     for (const mutation of mutations) {
       for (const node of mutation.addedNodes) {
         if (node.nodeType !== Node.ELEMENT_NODE) continue;
 
         const element = node as Element;
+        const itemId = element.id;
+
+        // Re-inserted item (chat re-render, mode switch, moderator action):
+        // never show it twice
+        if (itemId && this.seenIds.has(itemId)) {
+          if (this.isDeletedItem(element)) {
+            this.handleItemUpdate(element);
+          } else {
+            this.duplicatesDropped++;
+          }
+          continue;
+        }
+
+        // Items that arrive already deleted are skipped
+        if (this.isDeletedItem(element)) continue;
+
         const message = this.parseMessage(element);
         if (message) {
           this.lastMessageTime = now;
+          this.trackSeenId(message.id);
           this.callback(message);
         }
       }
     }
   }
 
+  /**
+   * Retract a previously emitted item that is now marked deleted
+   */
+  private handleItemUpdate(node: Node): void {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const itemId = element.id;
+    if (!itemId || !this.seenIds.has(itemId) || !this.isDeletedItem(element)) return;
+
+    this.seenIds.delete(itemId);
+    console.log(`[YT Chat Overlay] Chat item deleted: ${itemId}`);
+    this.retractCallback?.(itemId);
+  }
+
+  /**
+   * Check if a chat item was deleted (moderator action, retraction, or author timeout)
+   */
+  private isDeletedItem(element: Element): boolean {
+    return element.hasAttribute('is-deleted');
+  }
+
+  /**
+   * Remember an emitted chat item ID (bounded, oldest forgotten first)
+   */
+  private trackSeenId(itemId: string | undefined): void {
+    if (!itemId) return;
+
+    this.seenIds.add(itemId);
+    if (this.seenIds.size > MAX_TRACKED_IDS) {
+      const oldest = this.seenIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenIds.delete(oldest);
+      }
+    }
+  }
+
   /**
    * Parse message from DOM element
    *
    * Filtering policy for overlay display:
    *   ✅ text        – yt-live-chat-text-message-renderer (regular chat messages)
    *   ✅ superchat   – yt-live-chat-paid-message-renderer  (Super Chat with text)
-   *   ✅ membership  – yt-live-chat-membership-item-renderer (new/gifted member events)
-   *   ❌ sticker     – yt-live-chat-paid-sticker-renderer  (image-only, no readable text)
+   *   ✅ sticker     – yt-live-chat-paid-sticker-renderer  (Super Sticker, image + amount)
+   *   ✅ membership  – yt-live-chat-membership-item-renderer (new member / milestone)
+   *                  – ytd-sponsorships-live-chat-gift-purchase-announcement-renderer
+   *                  – ytd-sponsorships-live-chat-gift-redemption-announcement-renderer
    *   ❌ system      – viewer-engagement / banner / placeholder / timed-message
    *   ❌ other       – anything that doesn't match the above
    */
   private parseMessage(element: Element): ChatMessage | null {
     const tagName = element.tagName.toLowerCase();
 
-    // Must be a live-chat element
-    if (!tagName.startsWith('yt-live-chat-')) return null;
+    // Must be a live-chat element (gift announcements use the ytd- prefix)
+    if (
+      !tagName.startsWith('yt-live-chat-') &&
+      !tagName.startsWith('ytd-sponsorships-live-chat-')
+    ) {
+      return null;
+    }
 
     // Determine message kind FIRST so per-kind filtering can follow
     let kind: ChatMessage['kind'];
-    if (tagName.includes('membership')) {
+    let membership: MembershipInfo | undefined;
+    if (tagName.includes('membership') || tagName.includes('sponsorships')) {
       kind = 'membership';
+      membership = this.parseMembershipInfo(element, tagName);
+      if (!isMembershipEventShown(membership, this.getSettings?.())) return null;
     } else if (tagName.includes('paid')) {
-      // Super Stickers (image-only) – no readable text, skip
-      if (tagName.includes('sticker')) return null;
-      kind = 'superchat';
+      kind = tagName.includes('sticker') ? 'sticker' : 'superchat';
     } else if (tagName.includes('text-message')) {
       kind = 'text';
     } else {
@@ -578,12 +818,19 @@ export class ChatSource {
       if (kind === 'membership') {
         // Membership items: #message is optional (the member may have typed something).
         // Always show – even text-less membership items convey a meaningful event.
-        const messageElement = element.querySelector('#message');
+        // Gift purchases only have the "Gifted N memberships" header.
+        const messageElement =
+          membership?.type === 'gift'
+            ? element.querySelector('#primary-text')
+            : element.querySelector('#message');
         if (messageElement) {
           const parsed = this.parseMessageContent(messageElement);
           text = parsed.text;
           content = parsed.content;
         }
+      } else if (kind === 'sticker') {
+        // Super Stickers: image-only, the sticker description is filled in
+        // from the Super Chat info below
       } else if (kind === 'superchat') {
         // Super Chats: always show regardless of whether there is a text body.
         // The purchase itself is the event; text is optional.
@@ -609,7 +856,9 @@ export class ChatSource {
       }
 
       // Extract author information
-      const authorType = this.extractAuthorType(element);
+      const authorBadges = this.extractAuthorBadges(element);
+      const authorType = getAuthorTypeFromBadges(authorBadges);
+      const authorChannelId = this.extractAuthorChannelId(element);
       const authorName = this.extractAuthorName(element);
       const authorPhotoUrl = this.extractAuthorPhotoUrl(element);
 
@@ -619,6 +868,11 @@ export class ChatSource {
         timestamp: Date.now(),
       };
 
+      if (element.id) {
+        // Renderer elements carry the chat item ID
+        message.id = element.id;
+      }
+
       if (content.length > 0) {
         // Add rich content if available
         message.content = content;
@@ -631,11 +885,23 @@ export class ChatSource {
       if (authorType) {
         message.authorType = authorType;
       }
+      if (authorChannelId) {
+        message.authorChannelId = authorChannelId;
+      }
+      applyAuthorBadges(message, authorBadges);
       if (authorPhotoUrl) {
         message.authorPhotoUrl = authorPhotoUrl;
       }
 
-      if (kind === 'superchat') {
+      if (this.replayMode) {
+        // Replay items carry the video offset they were posted at
+        const videoOffsetMs = this.extractReplayOffsetMs(element);
+        if (videoOffsetMs !== null) {
+          message.videoOffsetMs = videoOffsetMs;
+        }
+      }
+
+      if (kind === 'superchat' || kind === 'sticker') {
         // Parse Super Chat specific data
         const superChatInfo = this.parseSuperChatInfo(element);
         if (superChatInfo) {
@@ -643,6 +909,16 @@ export class ChatSource {
         }
       }
 
+      if (membership) {
+        message.membership = membership;
+      }
+
+      if (kind === 'sticker') {
+        // A sticker without its image has nothing to show
+        if (!message.superChat?.stickerUrl) return null;
+        message.text = message.superChat.stickerLabel ?? '';
+      }
+
       return message;
     } catch (error) {
       console.warn('[YT Chat Overlay] Failed to parse message:', error);
@@ -650,6 +926,19 @@ export class ChatSource {
     }
   }
 
+  /**
+   * Classify a membership event element
+   */
+  private parseMembershipInfo(element: Element, tagName: string): MembershipInfo {
+    if (tagName.includes('gift-purchase')) {
+      return parseGiftPurchase(element.querySelector('#primary-text')?.textContent ?? '');
+    }
+    if (tagName.includes('gift-redemption')) {
+      return { type: 'redemption' };
+    }
+    return parseMembershipHeader(element.querySelector('#header-primary-text')?.textContent ?? '');
+  }
+
   /**
    * Check if an element represents a user message (not a system message)
    * Called AFTER kind detection in parseMessage, so purely an author-presence guard.
@@ -671,11 +960,6 @@ export class ChatSource {
    * their short messages are more likely to be intentional and relevant.
    */
   private isSubstantialText(text: string, element: Element): boolean {
-    const settings = this.getSettings?.();
-    if (settings?.allowShortTextMessages) {
-      return true;
-    }
-
     // Privileged authors always pass through
     const privilegedBadge = element.querySelector(
       'yt-live-chat-author-badge-renderer[type="moderator"], ' +
@@ -684,57 +968,87 @@ export class ChatSource {
     );
     if (privilegedBadge) return true;
 
-    // Strip emoji alt-text placeholders like "[emoji]", ":name:" to get real character count
-    const stripped = text
-      .replace(/\[.*?\]/g, '') // remove [emoji]
-      .replace(/:[-\w]+:/g, '') // remove :emoji_name:
-      .trim();
-
-    const minLength = Math.max(1, settings?.minTextLength ?? 3);
-    return stripped.length >= minLength;
+    return meetsMinTextLength(text, this.getSettings?.());
   }
 
   /**
-   * Extract author type from badge information
+   * Classify a badge by its type attribute, aria-label and tooltip
    */
-  private extractAuthorType(element: Element): ChatMessage['authorType'] {
-    // Check for badges - these indicate special user roles
-    const badges = element.querySelectorAll('yt-live-chat-author-badge-renderer');
+  private classifyBadge(badgeText: string, iconType: string): AuthorBadge['type'] {
+    // Check for channel owner
+    if (badgeText.includes('owner') || iconType.includes('owner')) {
+      return 'owner';
+    }
 
-    for (const badge of badges) {
-      // Check aria-label for role information
-      const ariaLabel = badge.getAttribute('aria-label')?.toLowerCase() || '';
-      const tooltip = badge.querySelector('#tooltip')?.textContent?.toLowerCase() || '';
-      const iconType = badge.getAttribute('type')?.toLowerCase() || '';
+    // Check for moderator
+    if (badgeText.includes('moderator') || badgeText.includes('mod')) {
+      return 'moderator';
+    }
 
-      const badgeText = `${ariaLabel} ${tooltip} ${iconType}`;
+    // Check for membership
+    if (
+      badgeText.includes('member') ||
+      badgeText.includes('membership') ||
+      iconType.includes('member')
+    ) {
+      return 'member';
+    }
 
-      // Check for channel owner (highest priority)
-      if (badgeText.includes('owner') || iconType.includes('owner')) {
-        return 'owner';
-      }
+    // Check for verified badge
+    if (badgeText.includes('verified')) {
+      return 'verified';
+    }
 
-      // Check for moderator
-      if (badgeText.includes('moderator') || badgeText.includes('mod')) {
-        return 'moderator';
+    return 'other';
+  }
+
+  /**
+   * Extract all author badges (role, tooltip, custom image, member tenure)
+   */
+  private extractAuthorBadges(element: Element): AuthorBadge[] {
+    const badges: AuthorBadge[] = [];
+
+    for (const badgeElement of element.querySelectorAll('yt-live-chat-author-badge-renderer')) {
+      // Check aria-label and tooltip for role information
+      const ariaLabel = badgeElement.getAttribute('aria-label')?.trim() || '';
+      const tooltip = badgeElement.querySelector('#tooltip')?.textContent?.trim() || '';
+      const iconType = badgeElement.getAttribute('type')?.toLowerCase() || '';
+      const label = tooltip || ariaLabel;
+
+      const type = this.classifyBadge(
+        `${ariaLabel} ${tooltip} ${iconType}`.toLowerCase(),
+        iconType
+      );
+      const badge: AuthorBadge = { type };
+      if (label) {
+        badge.label = label;
       }
 
-      // Check for membership
-      if (
-        badgeText.includes('member') ||
-        badgeText.includes('membership') ||
-        iconType.includes('member')
-      ) {
-        return 'member';
+      // Custom badge images (membership tiers); built-in roles use SVG icons
+      const image = badgeElement.querySelector<HTMLImageElement>('img');
+      if (image?.src && isAllowedYouTubeImageUrl(image.src)) {
+        badge.imageUrl = image.src;
       }
 
-      // Check for verified badge
-      if (badgeText.includes('verified')) {
-        return 'verified';
+      if (type === 'member' && label) {
+        const memberMonths = parseMemberMonths(label);
+        if (memberMonths !== undefined) {
+          badge.memberMonths = memberMonths;
+        }
       }
+      badges.push(badge);
     }
 
-    return 'normal';
+    return badges;
+  }
+
+  /**
+   * Read the author channel ID from the item's renderer data, when exposed
+   */
+  private extractAuthorChannelId(element: Element): string | undefined {
+    const data = (element as Element & { data?: { authorExternalChannelId?: unknown } }).data;
+    const channelId = data?.authorExternalChannelId;
+    return typeof channelId === 'string' && channelId.startsWith('UC') ? channelId : undefined;
   }
 
   /**
@@ -747,6 +1061,25 @@ export class ChatSource {
     return authorElement?.textContent?.trim();
   }
 
+  /**
+   * Extract video offset from the replay timestamp element
+   * Formats: "12:34", "1:02:03", "-0:05" (chat posted before the stream started)
+   */
+  private extractReplayOffsetMs(element: Element): number | null {
+    const timestampText = element.querySelector('#timestamp')?.textContent?.trim();
+    if (!timestampText) return null;
+
+    const match = timestampText.match(/^(-)?(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+
+    const sign = match[1] ? -1 : 1;
+    const hours = parseInt(match[2] || '0', 10);
+    const minutes = parseInt(match[3] || '0', 10);
+    const seconds = parseInt(match[4] || '0', 10);
+
+    return sign * ((hours * 60 + minutes) * 60 + seconds) * 1000;
+  }
+
   /**
    * Extract author photo URL
    */
@@ -776,24 +1109,6 @@ export class ChatSource {
     return photoUrl;
   }
 
-  /**
-   * Normalize text content
-   */
-  private normalizeText(text: string): string {
-    // Remove control characters
-    let normalized = text.replace(/[\u0000-\u001F\u007F-\u009F]/g, '');
-
-    // Collapse whitespace
-    normalized = normalized.replace(/\s+/g, ' ').trim();
-
-    // Limit length (80 chars)
-    if (normalized.length > 80) {
-      normalized = `${normalized.substring(0, 77)}...`;
-    }
-
-    return normalized;
-  }
-
   /**
    * Detect emoji type (standard/custom/member)
    */
@@ -873,8 +1188,33 @@ export class ChatSource {
   }
 
   /**
-   * Parse message content with emojis
-   * Returns both plain text and rich content segments
+   * Parse a link inside a message: @mentions link to the mentioned channel
+   */
+  private parseLinkSegment(
+    link: HTMLAnchorElement
+  ): Extract<ContentSegment, { type: 'link' | 'mention' }> | null {
+    const text = link.textContent ?? '';
+    if (!text.trim()) return null;
+
+    const href = link.getAttribute('href') ?? '';
+    if (text.trim().startsWith('@')) {
+      const mention: Extract<ContentSegment, { type: 'mention' }> = {
+        type: 'mention',
+        content: text,
+      };
+      const channelId = href.match(/\/channel\/(UC[\w-]+)/)?.[1];
+      if (channelId) {
+        mention.channelId = channelId;
+      }
+      return mention;
+    }
+
+    return href ? { type: 'link', content: text, url: resolveLinkUrl(href) } : null;
+  }
+
+  /**
+   * Parse message content with emojis, links and @mentions
+   * Returns both plain text and rich content segments (whitespace preserved)
    */
   private parseMessageContent(messageElement: Element): {
     text: string;
@@ -886,14 +1226,24 @@ export class ChatSource {
     // Traverse child nodes in order
     const processNode = (node: Node): void => {
       if (node.nodeType === Node.TEXT_NODE) {
-        const text = node.textContent?.trim() || '';
+        // Keep spaces between words and emoji; they are collapsed when rendered
+        const text = node.textContent ?? '';
         if (text) {
-          segments.push({ type: 'text', content: text });
+          segments.push(...splitMentions(text));
           plainText += text;
         }
       } else if (node.nodeType === Node.ELEMENT_NODE) {
         const elem = node as Element;
 
+        if (elem.tagName.toLowerCase() === 'a') {
+          const linkSegment = this.parseLinkSegment(elem as HTMLAnchorElement);
+          if (linkSegment) {
+            segments.push(linkSegment);
+            plainText += linkSegment.content;
+            return;
+          }
+        }
+
         // Check if it's an emoji image
         if (
           elem.tagName.toLowerCase() === 'img' &&
@@ -923,7 +1273,7 @@ export class ChatSource {
     }
 
     return {
-      text: this.normalizeText(plainText),
+      text: normalizeChatText(plainText),
       content: segments,
     };
   }
@@ -935,7 +1285,7 @@ export class ChatSource {
     try {
       // Extract purchase amount and currency
       const purchaseAmountElement = element.querySelector(
-        '#purchase-amount, yt-formatted-string#purchase-amount'
+        '#purchase-amount, yt-formatted-string#purchase-amount, #purchase-amount-chip'
       );
       const amountText = purchaseAmountElement?.textContent?.trim() || '';
 
@@ -944,14 +1294,16 @@ export class ChatSource {
         return null;
       }
 
-      // Parse amount and currency (e.g., "$5.00", "¥500", "₩5,000")
-      // Common formats: "$5.00", "5.00 USD", "¥500", "₩5,000", "€5.00"
-      const currencyMatch = amountText.match(/[A-Z]{3}/) || [];
-      const currency = currencyMatch[0];
+      // Parse amount and currency (e.g., "$5.00", "5.00 USD", "¥500", "₩5,000", "€5.00")
+      const parsedAmount = parseAmount(amountText);
 
       // Extract colors from element styles
+      // (Super Stickers expose their tier color on the amount chip variable)
       const computedStyle = window.getComputedStyle(element);
       const backgroundColor =
+        computedStyle
+          .getPropertyValue('--yt-live-chat-paid-sticker-chip-background-color')
+          .trim() ||
         computedStyle.backgroundColor ||
         element.getAttribute('style')?.match(/background-color:\s*([^;]+)/)?.[1] ||
         undefined;
@@ -965,7 +1317,7 @@ export class ChatSource {
         : undefined;
 
       // Determine color tier based on background color or amount
-      const tier = this.determineSuperChatTier(backgroundColor, amountText);
+      const tier = determineSuperChatTier(backgroundColor, parsedAmount, this.getSettings?.());
 
       // Check for sticker (high-tier Super Chats may have stickers)
       const stickerImg = element.querySelector(
@@ -973,6 +1325,9 @@ export class ChatSource {
       ) as HTMLImageElement;
       const stickerUrl =
         stickerImg && isAllowedYouTubeImageUrl(stickerImg.src) ? stickerImg.src : undefined;
+      const stickerLabel = normalizeChatText(
+        stickerImg?.alt || stickerImg?.getAttribute('aria-label') || ''
+      );
 
       const superChatInfo: SuperChatInfo = {
         amount: amountText,
@@ -980,8 +1335,11 @@ export class ChatSource {
       };
 
       // Add optional fields only if they have values
-      if (currency) {
-        superChatInfo.currency = currency;
+      if (parsedAmount) {
+        superChatInfo.value = parsedAmount.value;
+        if (parsedAmount.currency) {
+          superChatInfo.currency = parsedAmount.currency;
+        }
       }
       if (backgroundColor) {
         superChatInfo.backgroundColor = backgroundColor;
@@ -992,6 +1350,9 @@ export class ChatSource {
       if (stickerUrl) {
         superChatInfo.stickerUrl = stickerUrl;
       }
+      if (stickerUrl && stickerLabel) {
+        superChatInfo.stickerLabel = stickerLabel;
+      }
 
       return superChatInfo;
     } catch (error) {
@@ -1000,68 +1361,48 @@ export class ChatSource {
     }
   }
 
-  /**
-   * Determine Super Chat tier based on background color or amount
-   * YouTube uses different colors for different price tiers
-   */
-  private determineSuperChatTier(
-    backgroundColor: string | undefined,
-    amountText: string
-  ): SuperChatInfo['tier'] {
-    if (!backgroundColor) {
-      // Fallback: estimate tier from amount text
-      const numericAmount = parseFloat(amountText.replace(/[^0-9.]/g, ''));
-      if (numericAmount >= 100) return 'red';
-      if (numericAmount >= 50) return 'magenta';
-      if (numericAmount >= 20) return 'orange';
-      if (numericAmount >= 10) return 'yellow';
-      if (numericAmount >= 5) return 'green';
-      if (numericAmount >= 2) return 'cyan';
-      return 'blue';
-    }
-
-    // Parse RGB values from backgroundColor
-    const rgbMatch = backgroundColor.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
-    if (!rgbMatch) return 'blue'; // fallback
-
-    const r = parseInt(rgbMatch[1] || '0', 10);
-    const g = parseInt(rgbMatch[2] || '0', 10);
-    const b = parseInt(rgbMatch[3] || '0', 10);
-
-    // YouTube Super Chat color tiers (approximate RGB ranges)
-    // Red: $100+ (rgb(230, 33, 23))
-    if (r > 200 && g < 100 && b < 100) return 'red';
-    // Magenta: $50-$99 (rgb(233, 30, 99))
-    if (r > 200 && g < 100 && b > 80) return 'magenta';
-    // Orange: $20-$49 (rgb(245, 124, 0))
-    if (r > 200 && g > 100 && g < 150 && b < 50) return 'orange';
-    // Yellow: $10-$19 (rgb(255, 202, 40))
-    if (r > 200 && g > 180 && b < 100) return 'yellow';
-    // Green: $5-$9 (rgb(29, 233, 182))
-    if (r < 100 && g > 200 && b > 150) return 'green';
-    // Cyan: $2-$4 (rgb(0, 191, 255))
-    if (r < 100 && g > 150 && b > 200) return 'cyan';
-    // Blue: $1-$1.99 (rgb(30, 136, 229))
-    return 'blue';
-  }
-
   /**
    * Stop monitoring and cleanup resources
    */
   stop(): void {
-    // Disconnect observer
-    if (this.observer) {
-      this.observer.disconnect();
-      this.observer = null;
-    }
+    this.stopWatchdog();
+    this.detachFromContainer();
 
     // Clear references
-    this.chatContainer = null;
     this.callback = null;
+    this.retractCallback = null;
+    this.bannerCallback = null;
+    if (this.recoveries > 0) {
+      console.log(`[YT Chat Overlay] Watchdog re-attached chat ${this.recoveries} time(s)`);
+    }
+    this.recoveries = 0;
+    if (this.duplicatesDropped > 0) {
+      console.log(`[YT Chat Overlay] Dropped ${this.duplicatesDropped} re-inserted chat items`);
+    }
+    this.seenIds.clear();
+    this.duplicatesDropped = 0;
+    this.replayMode = false;
 
     console.log('[YT Chat Overlay] Chat monitoring stopped');
   }
 
+  /**
+   * Get de-duplication counters for diagnostics
+   */
+  getDedupeStats(): DedupeStats {
+    return {
+      trackedIds: this.seenIds.size,
+      duplicatesDropped: this.duplicatesDropped,
+    };
+  }
+
+  /**
+   * Check if the monitored chat is a replay (VOD) chat
+   */
+  isReplay(): boolean {
+    return this.replayMode;
+  }
+
   /**
    * Check if chat is active (received messages recently)
    */
@@ -0,0 +1,323 @@
+/**
+ * Chat Text
+ *
+ * Normalization and filtering rules shared by every chat parser (DOM scraper,
+ * JSON payloads, imported comment files) so all sources produce the same
+ * ChatMessage shape regardless of where the data came from.
+ */
+
+import {
+  type AuthorBadge,
+  type AuthorType,
+  type ChatMessage,
+  type ContentSegment,
+  DEFAULT_SETTINGS,
+  type MembershipInfo,
+  type OverlaySettings,
+  type SuperChatInfo,
+} from '@app-types';
+import { type ParsedAmount, toUsd } from '@core/currency';
+
+/**
+ * Maximum text length kept per message (YouTube's Super Chat limit).
+ * The configurable display limit is applied by the renderer.
+ */
+const MAX_TEXT_LENGTH = 350;
+
+/**
+ * Maximum text length kept for pinned messages and polls (shown in full, not scrolled)
+ */
+export const MAX_BANNER_TEXT_LENGTH = 200;
+
+/**
+ * @handle mentions inside message text (at the start or after whitespace)
+ */
+const MENTION_PATTERN = /(?<=^|\s)@[\p{L}\p{N}_.-]*[\p{L}\p{N}_]/gu;
+
+/**
+ * Normalize message text: strip control characters, collapse whitespace,
+ * and cap the length (350 chars unless given)
+ */
+export const normalizeChatText = (text: string, maxLength: number = MAX_TEXT_LENGTH): string => {
+  // Remove control characters
+  let normalized = text.replace(/[\u0000-\u001F\u007F-\u009F]/g, '');
+
+  // Collapse whitespace
+  normalized = normalized.replace(/\s+/g, ' ').trim();
+
+  // Limit length
+  if (normalized.length > maxLength) {
+    normalized = `${normalized.substring(0, maxLength - 3)}...`;
+  }
+
+  return normalized;
+};
+
+/**
+ * Split a run of message text into text and @mention segments (whitespace kept)
+ */
+export const splitMentions = (text: string): ContentSegment[] => {
+  const segments: ContentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', content: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'mention', content: match[0] });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', content: text.slice(lastIndex) });
+  }
+
+  return segments;
+};
+
+/**
+ * Normalize a display name or @handle for mention matching
+ */
+export const normalizeMentionName = (name: string): string =>
+  name.trim().replace(/^@/, '').toLowerCase();
+
+/**
+ * Resolve a chat link to its target (YouTube wraps external links in /redirect?q=...)
+ */
+export const resolveLinkUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url, 'https://www.youtube.com');
+    if (parsed.pathname === '/redirect') {
+      return parsed.searchParams.get('q') ?? parsed.href;
+    }
+    return parsed.href;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Cut rich content segments to a length budget.
+ * Text counts with whitespace collapsed (as in ChatMessage.text), emoji as their alt text.
+ */
+const truncateContent = (segments: ContentSegment[], budget: number): ContentSegment[] => {
+  const truncated: ContentSegment[] = [];
+  let remaining = budget;
+
+  for (const segment of segments) {
+    if (remaining <= 0) break;
+
+    if (segment.type === 'emoji') {
+      // Never cut an emoji in half: drop it if its alt text does not fit
+      const length = (segment.emoji.alt || '[emoji]').length;
+      if (length > remaining) break;
+      truncated.push(segment);
+      remaining -= length;
+    } else {
+      // Text, link and mention segments are cut in place, keeping their type
+      const text = segment.content.replace(/\s+/g, ' ');
+      if (text.length > remaining) {
+        truncated.push({ ...segment, content: text.substring(0, remaining) });
+        break;
+      }
+      truncated.push(segment);
+      remaining -= text.length;
+    }
+  }
+
+  truncated.push({ type: 'text', content: '...' });
+  return truncated;
+};
+
+/**
+ * Cut a message to a display length limit with "...". Plain text and rich
+ * content are cut at the same point so emoji stay where the text says they are.
+ * @returns the message itself if it already fits
+ */
+export const truncateChatMessage = (message: ChatMessage, maxLength: number): ChatMessage => {
+  if (message.text.length <= maxLength) {
+    return message;
+  }
+
+  const budget = Math.max(0, maxLength - 3);
+  const truncated: ChatMessage = {
+    ...message,
+    text: `${message.text.substring(0, budget)}...`,
+  };
+  if (message.content) {
+    truncated.content = truncateContent(message.content, budget);
+  }
+  return truncated;
+};
+
+/**
+ * Decide whether a plain text message is long enough to show on the overlay.
+ * Emoji alt-text placeholders ("[emoji]", ":name:") do not count as characters.
+ */
+export const meetsMinTextLength = (
+  text: string,
+  settings: Readonly<OverlaySettings> | undefined
+): boolean => {
+  if (settings?.allowShortTextMessages) {
+    return true;
+  }
+
+  const stripped = text
+    .replace(/\[.*?\]/g, '') // remove [emoji]
+    .replace(/:[-\w]+:/g, '') // remove :emoji_name:
+    .trim();
+
+  const minLength = Math.max(1, settings?.minTextLength ?? 3);
+  return stripped.length >= minLength;
+};
+
+/**
+ * Key under which near-identical messages are collapsed into one comment.
+ * Emoji are reduced to their ID (or alt text), then case, width, spacing and
+ * punctuation are ignored and repeats are folded ("草草草" → "草",
+ * "lol lol lol" → "lol", three of the same emoji → one).
+ * @returns null if nothing is left to compare
+ */
+export const getDuplicateKey = (message: ChatMessage): string | null => {
+  const raw = message.content
+    ? message.content
+        .map((segment) =>
+          segment.type === 'emoji'
+            ? `\u0000${segment.emoji.id ?? segment.emoji.alt}\u0000`
+            : segment.content
+        )
+        .join('')
+    : message.text;
+
+  const key = raw
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}]+/gu, '')
+    .replace(/(.+?)\1+/gu, '$1');
+  return key || null;
+};
+
+/**
+ * Read the first whole number in a header text ("Member for 12 months",
+ * "Gifted 5 memberships", "1,000"), ignoring thousands separators
+ */
+const readCount = (text: string): number | undefined => {
+  const match = text.match(/\d+(?:[,.\s]\d{3})*/);
+  if (!match) return undefined;
+  const count = parseInt(match[0].replace(/[,.\s]/g, ''), 10);
+  return Number.isFinite(count) && count > 0 ? count : undefined;
+};
+
+/**
+ * Membership tenure from a member badge tooltip ("Member (6 months)",
+ * "Member (2 years)", "New member"); localized unit words are matched loosely
+ * @returns months (0 for new members), or undefined if there is no count
+ */
+export const parseMemberMonths = (label: string): number | undefined => {
+  const count = readCount(label);
+  if (count === undefined) {
+    return /\bnew\b/i.test(label) ? 0 : undefined;
+  }
+  return /years?|年|년|años?|ans?\b|jahre?/i.test(label) ? count * 12 : count;
+};
+
+/**
+ * Author type from the highest-priority badge (owner > moderator > member > verified)
+ */
+export const getAuthorTypeFromBadges = (badges: readonly AuthorBadge[]): AuthorType => {
+  for (const type of ['owner', 'moderator', 'member', 'verified'] as const) {
+    if (badges.some((badge) => badge.type === type)) return type;
+  }
+  return 'normal';
+};
+
+/**
+ * Add author badges and the member tenure they carry to a message
+ */
+export const applyAuthorBadges = (message: ChatMessage, badges: AuthorBadge[]): void => {
+  if (badges.length === 0) return;
+
+  message.authorBadges = badges;
+  const memberMonths = badges.find((badge) => badge.type === 'member')?.memberMonths;
+  if (memberMonths !== undefined) {
+    message.memberMonths = memberMonths;
+  }
+};
+
+/**
+ * Classify a membership item by its primary header
+ * Milestone items say "Member for N months"; new member items have no count.
+ */
+export const parseMembershipHeader = (primaryText: string): MembershipInfo => {
+  const months = readCount(primaryText);
+  return months !== undefined ? { type: 'milestone', months } : { type: 'new' };
+};
+
+/**
+ * Build gift purchase info from its header ("Gifted 5 <channel> memberships")
+ */
+export const parseGiftPurchase = (primaryText: string): MembershipInfo => {
+  const info: MembershipInfo = { type: 'gift' };
+  const giftCount = readCount(primaryText);
+  if (giftCount !== undefined) {
+    info.giftCount = giftCount;
+  }
+  return info;
+};
+
+/**
+ * Check if a membership event type is enabled for display
+ */
+export const isMembershipEventShown = (
+  membership: MembershipInfo,
+  settings: Readonly<OverlaySettings> | undefined
+): boolean => settings?.membershipEvents[membership.type] ?? true;
+
+/**
+ * Determine Super Chat tier based on background color or amount
+ * YouTube uses different colors for different price tiers
+ */
+export const determineSuperChatTier = (
+  backgroundColor: string | undefined,
+  amount: ParsedAmount | null,
+  settings: Readonly<OverlaySettings> | undefined
+): SuperChatInfo['tier'] => {
+  if (!backgroundColor) {
+    // Fallback: estimate tier from the amount in US dollars. Without a rate the
+    // raw value says nothing across currencies (¥500 is not $500): lowest tier
+    if (!amount) return 'blue';
+    const rates = settings?.currencyRates ?? DEFAULT_SETTINGS.currencyRates;
+    const numericAmount = toUsd(amount.value, amount.currency, rates);
+    if (numericAmount === null) return 'blue';
+    if (numericAmount >= 100) return 'red';
+    if (numericAmount >= 50) return 'magenta';
+    if (numericAmount >= 20) return 'orange';
+    if (numericAmount >= 10) return 'yellow';
+    if (numericAmount >= 5) return 'green';
+    if (numericAmount >= 2) return 'cyan';
+    return 'blue';
+  }
+
+  // Parse RGB values from backgroundColor
+  const rgbMatch = backgroundColor.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
+  if (!rgbMatch) return 'blue'; // fallback
+
+  const r = parseInt(rgbMatch[1] || '0', 10);
+  const g = parseInt(rgbMatch[2] || '0', 10);
+  const b = parseInt(rgbMatch[3] || '0', 10);
+
+  // YouTube Super Chat color tiers (approximate RGB ranges)
+  // Red: $100+ (rgb(230, 33, 23))
+  if (r > 200 && g < 100 && b < 100) return 'red';
+  // Magenta: $50-$99 (rgb(233, 30, 99))
+  if (r > 200 && g < 100 && b > 80) return 'magenta';
+  // Orange: $20-$49 (rgb(245, 124, 0))
+  if (r > 200 && g > 100 && g < 150 && b < 50) return 'orange';
+  // Yellow: $10-$19 (rgb(255, 202, 40))
+  if (r > 200 && g > 180 && b < 100) return 'yellow';
+  // Green: $5-$9 (rgb(29, 233, 182))
+  if (r < 100 && g > 200 && b > 150) return 'green';
+  // Cyan: $2-$4 (rgb(0, 191, 255))
+  if (r < 100 && g > 150 && b > 200) return 'cyan';
+  // Blue: $1-$1.99 (rgb(30, 136, 229))
+  return 'blue';
+};
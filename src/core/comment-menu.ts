@@ -0,0 +1,207 @@
+/**
+ * Comment Menu
+ *
+ * Small context menu opened by clicking (or hovering over) a flowing comment
+ * while comment interaction is enabled: mute or highlight the author, or copy
+ * the text. The menu lives inside the overlay container so it stays visible in
+ * fullscreen. A hover-opened menu closes once the pointer is on neither the
+ * menu nor the comment (which may also scroll away from the pointer).
+ */
+
+import type { AuthorRef, ChatMessage } from '@app-types';
+import { getAuthorRef } from '@core/author-lists';
+import { borderRadius, colors, shadows, spacing, typography } from './design-tokens.js';
+
+const STYLE_ID = 'yt-chat-overlay-comment-menu-style';
+
+/** How often a hover-opened menu checks whether the pointer left (ms) */
+const LEAVE_CHECK_INTERVAL_MS = 250;
+
+/**
+ * Actions offered by the menu that are handled by the app
+ */
+export interface CommentMenuActions {
+  /** Add the author to the mute list */
+  muteAuthor: (author: AuthorRef) => void;
+  /** Add the author to, or remove them from, the highlight list */
+  setAuthorHighlighted: (author: AuthorRef, highlighted: boolean) => void;
+  /** Check if the message's author is highlighted */
+  isAuthorHighlighted: (message: ChatMessage) => boolean;
+}
+
+/**
+ * Keep menu clicks away from the player underneath (play/pause, fullscreen)
+ */
+const stopPlayerEvent = (event: Event) => {
+  event.stopPropagation();
+};
+
+export class CommentMenu {
+  private menu: HTMLDivElement | null = null;
+  /** Message the open menu belongs to */
+  private message: ChatMessage | null = null;
+  private leaveTimer: number | null = null;
+
+  private readonly handlePointerDown = (event: PointerEvent) => {
+    if (this.menu && event.target instanceof Node && this.menu.contains(event.target)) return;
+    this.close();
+  };
+
+  private readonly handleKeydown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      this.close();
+    }
+  };
+
+  constructor(private readonly actions: CommentMenuActions) {}
+
+  /**
+   * Open the menu for a comment at the pointer position
+   * @param container overlay container the menu is placed in
+   * @param hoverTarget comment element for hover-opened menus (close on leave)
+   */
+  open(
+    message: ChatMessage,
+    container: HTMLElement,
+    event: MouseEvent,
+    hoverTarget: HTMLElement | null = null
+  ): void {
+    // Pointer came back from the menu to its comment: keep the menu in place
+    if (hoverTarget && this.menu && this.message === message) return;
+
+    this.close();
+    this.ensureStyles();
+
+    const menu = document.createElement('div');
+    menu.className = 'yt-chat-overlay-comment-menu';
+    menu.setAttribute('role', 'menu');
+    menu.addEventListener('click', stopPlayerEvent);
+    menu.addEventListener('dblclick', stopPlayerEvent);
+
+    const author = getAuthorRef(message);
+    if (author) {
+      if (author.name) {
+        const header = document.createElement('div');
+        header.className = 'yt-chat-overlay-comment-menu-header';
+        header.textContent = author.name;
+        menu.appendChild(header);
+      }
+
+      const highlighted = this.actions.isAuthorHighlighted(message);
+      this.addItem(menu, 'Mute author', () => this.actions.muteAuthor(author));
+      this.addItem(menu, highlighted ? 'Remove highlight' : 'Highlight author', () =>
+        this.actions.setAuthorHighlighted(author, !highlighted)
+      );
+    }
+    this.addItem(menu, 'Copy text', () => {
+      void this.copyText(message.text);
+    });
+
+    container.appendChild(menu);
+    this.menu = menu;
+    this.message = message;
+
+    // Open at the click position, kept inside the overlay
+    const bounds = container.getBoundingClientRect();
+    const left = Math.min(event.clientX - bounds.left, bounds.width - menu.offsetWidth);
+    const top = Math.min(event.clientY - bounds.top, bounds.height - menu.offsetHeight);
+    menu.style.left = `${Math.max(0, left)}px`;
+    menu.style.top = `${Math.max(0, top)}px`;
+
+    document.addEventListener('pointerdown', this.handlePointerDown, true);
+    document.addEventListener('keydown', this.handleKeydown);
+
+    if (hoverTarget) {
+      // Focus would scroll and steal keys from the player on a mere hover
+      this.leaveTimer = window.setInterval(() => {
+        if (!menu.matches(':hover') && !hoverTarget.matches(':hover')) {
+          this.close();
+        }
+      }, LEAVE_CHECK_INTERVAL_MS);
+    } else {
+      menu.querySelector<HTMLButtonElement>('button')?.focus();
+    }
+  }
+
+  private addItem(menu: HTMLDivElement, label: string, action: () => void): void {
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.setAttribute('role', 'menuitem');
+    item.textContent = label;
+    item.addEventListener('click', () => {
+      this.close();
+      action();
+    });
+    menu.appendChild(item);
+  }
+
+  private async copyText(text: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.warn('[CommentMenu] Failed to copy text:', error);
+    }
+  }
+
+  private ensureStyles(): void {
+    if (document.getElementById(STYLE_ID)) return;
+
+    const style = document.createElement('style');
+    style.id = STYLE_ID;
+    style.textContent = `
+      .yt-chat-overlay-comment-menu {
+        position: absolute;
+        z-index: 2;
+        display: flex;
+        flex-direction: column;
+        min-width: 160px;
+        padding: ${spacing.xs}px 0;
+        border: 1px solid ${colors.ui.border};
+        border-radius: ${borderRadius.sm};
+        background: ${colors.ui.background};
+        box-shadow: ${shadows.box.md};
+        font-family: system-ui, -apple-system, sans-serif;
+        font-size: ${typography.fontSize.sm};
+        pointer-events: auto;
+      }
+      .yt-chat-overlay-comment-menu-header {
+        padding: ${spacing.xs}px ${spacing.md}px;
+        color: ${colors.ui.textMuted};
+        font-size: ${typography.fontSize.xs};
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        max-width: 240px;
+      }
+      .yt-chat-overlay-comment-menu button {
+        border: none;
+        padding: ${spacing.xs}px ${spacing.md}px;
+        background: transparent;
+        color: ${colors.ui.text};
+        font: inherit;
+        text-align: left;
+        cursor: pointer;
+      }
+      .yt-chat-overlay-comment-menu button:hover,
+      .yt-chat-overlay-comment-menu button:focus-visible {
+        background: ${colors.ui.backgroundLight};
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Close the menu if open
+   */
+  close(): void {
+    if (this.leaveTimer !== null) {
+      window.clearInterval(this.leaveTimer);
+      this.leaveTimer = null;
+    }
+    document.removeEventListener('pointerdown', this.handlePointerDown, true);
+    document.removeEventListener('keydown', this.handleKeydown);
+    this.menu?.remove();
+    this.menu = null;
+    this.message = null;
+  }
+}
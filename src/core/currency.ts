@@ -0,0 +1,202 @@
+/**
+ * Currency
+ *
+ * Turns Super Chat amount strings as YouTube displays them ("$5.00", "¥500",
+ * "₩5,000", "CA$10.00", "5,00 €") into a numeric value and an ISO 4217 code,
+ * and converts values between currencies with a local rate table (no
+ * exchange-rate requests are ever made).
+ */
+
+/**
+ * Parsed Super Chat amount
+ */
+export interface ParsedAmount {
+  /** Numeric amount in currency units */
+  value: number;
+  /** ISO 4217 code, when the symbol or code is recognized */
+  currency?: string;
+}
+
+/**
+ * Currency symbols as YouTube displays them → ISO 4217 code.
+ * Ambiguous symbols ("$", "¥") are resolved by locale in resolveSymbol.
+ */
+const CURRENCY_SYMBOLS: Readonly<Record<string, string>> = {
+  $: 'USD',
+  US$: 'USD',
+  CA$: 'CAD',
+  A$: 'AUD',
+  AU$: 'AUD',
+  NZ$: 'NZD',
+  HK$: 'HKD',
+  NT$: 'TWD',
+  MX$: 'MXN',
+  R$: 'BRL',
+  S$: 'SGD',
+  '¥': 'JPY',
+  '￥': 'JPY',
+  'JP¥': 'JPY',
+  'CN¥': 'CNY',
+  '₩': 'KRW',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  '₱': 'PHP',
+  '₫': 'VND',
+  '₪': 'ILS',
+  '₺': 'TRY',
+  '₽': 'RUB',
+  '₴': 'UAH',
+  '฿': 'THB',
+  '₦': 'NGN',
+  zł: 'PLN',
+  RM: 'MYR',
+  Rp: 'IDR',
+  Kč: 'CZK',
+  Ft: 'HUF',
+  'E£': 'EGP',
+};
+
+/**
+ * Local dollar of regions where YouTube shows a bare "$"
+ */
+const LOCAL_DOLLARS: Readonly<Record<string, string>> = {
+  CA: 'CAD',
+  AU: 'AUD',
+  NZ: 'NZD',
+  MX: 'MXN',
+  SG: 'SGD',
+  HK: 'HKD',
+  TW: 'TWD',
+  AR: 'ARS',
+  CL: 'CLP',
+  CO: 'COP',
+};
+
+/**
+ * Number inside an amount string (digits with group/decimal separators)
+ */
+const NUMBER_PATTERN = /\d(?:[\d.,'\s]*\d)?/;
+
+/**
+ * Locale used to resolve ambiguous symbols (browser language, then page language)
+ */
+const getLocale = (): string => navigator.language || document.documentElement.lang || 'en-US';
+
+/**
+ * Region subtag of a locale ("en-CA" → "CA"), if any
+ */
+const getRegion = (locale: string): string | undefined => {
+  try {
+    return new Intl.Locale(locale).maximize().region;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Resolve a currency symbol or code to an ISO 4217 code
+ */
+const resolveSymbol = (symbol: string, locale: string): string | undefined => {
+  if (/^[A-Z]{3}$/.test(symbol)) return symbol;
+
+  const region = getRegion(locale);
+  if (symbol === '$' && region) {
+    return LOCAL_DOLLARS[region] ?? 'USD';
+  }
+  if ((symbol === '¥' || symbol === '￥') && region === 'CN') {
+    return 'CNY';
+  }
+  return CURRENCY_SYMBOLS[symbol];
+};
+
+/**
+ * Parse a grouped number. With both "," and "." present the last one is the
+ * decimal separator; a single separator followed by exactly three digits
+ * (or repeated) groups thousands ("5,000", "1.000.000"), otherwise it marks
+ * decimals ("5.00", "5,50").
+ */
+const parseNumber = (digits: string): number | null => {
+  const cleaned = digits.replace(/['\s]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  let decimalIndex = -1;
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimalIndex = Math.max(lastComma, lastDot);
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const groups = cleaned.split(separator);
+    const isGrouping = groups.length > 2 || groups[groups.length - 1]?.length === 3;
+    if (!isGrouping) {
+      decimalIndex = Math.max(lastComma, lastDot);
+    }
+  }
+
+  const integerPart = (decimalIndex >= 0 ? cleaned.slice(0, decimalIndex) : cleaned).replace(
+    /[.,]/g,
+    ''
+  );
+  const fractionPart = decimalIndex >= 0 ? cleaned.slice(decimalIndex + 1) : '';
+  const value = Number(fractionPart ? `${integerPart}.${fractionPart}` : integerPart);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Parse a displayed amount into a value and ISO currency
+ * @returns null if the text contains no number
+ */
+export const parseAmount = (text: string, locale: string = getLocale()): ParsedAmount | null => {
+  const numberMatch = text.match(NUMBER_PATTERN);
+  if (!numberMatch) return null;
+
+  const value = parseNumber(numberMatch[0]);
+  if (value === null) return null;
+
+  const amount: ParsedAmount = { value };
+  const symbol = text.replace(numberMatch[0], '').replace(/\s/g, '');
+  const currency = text.match(/\b[A-Z]{3}\b/)?.[0] ?? resolveSymbol(symbol, locale);
+  if (currency) {
+    amount.currency = currency;
+  }
+  return amount;
+};
+
+/**
+ * Convert an amount to US dollars with a local rate table (units per 1 USD)
+ * @returns null if the currency is unknown or has no rate
+ */
+export const toUsd = (
+  value: number,
+  currency: string | undefined,
+  rates: Readonly<Record<string, number>>
+): number | null => {
+  if (!currency) return null;
+  const rate = rates[currency];
+  return rate && rate > 0 ? value / rate : null;
+};
+
+/**
+ * Format a rate table for editing (one "CODE rate" pair per line)
+ */
+export const formatCurrencyRates = (rates: Readonly<Record<string, number>>): string =>
+  Object.entries(rates)
+    .map(([currency, rate]) => `${currency} ${rate}`)
+    .join('\n');
+
+/**
+ * Parse an edited rate table; invalid lines are skipped
+ */
+export const parseCurrencyRates = (text: string): Record<string, number> => {
+  const rates: Record<string, number> = {};
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^([A-Za-z]{3})\s*[=:]?\s*([\d.]+)$/);
+    if (!match?.[1] || !match[2]) continue;
+
+    const rate = Number.parseFloat(match[2]);
+    if (Number.isFinite(rate) && rate > 0) {
+      rates[match[1].toUpperCase()] = rate;
+    }
+  }
+  return rates;
+};
@@ -0,0 +1,160 @@
+/**
+ * Danmaku Import
+ *
+ * Parses local Niconico / Bilibili XML comment files into ChatMessages with
+ * video-time offsets so archived comment tracks can be played over any video.
+ * Files are read locally through the settings file picker - nothing is fetched.
+ */
+
+import type { ChatMessage } from '@app-types';
+import { normalizeChatText } from '@core/chat-text';
+
+export type DanmakuFormat = 'niconico' | 'bilibili';
+
+export interface DanmakuTrack {
+  format: DanmakuFormat;
+  /** Messages sorted by videoOffsetMs */
+  messages: ChatMessage[];
+}
+
+/**
+ * Niconico color commands (mail attribute)
+ */
+const NICO_COLORS: Record<string, string> = {
+  red: '#FF0000',
+  pink: '#FF8080',
+  orange: '#FFC000',
+  yellow: '#FFFF00',
+  green: '#00FF00',
+  cyan: '#00FFFF',
+  blue: '#0000FF',
+  purple: '#C000FF',
+  black: '#000000',
+  white2: '#CCCC99',
+  niconicowhite: '#CCCC99',
+  red2: '#CC0033',
+  truered: '#CC0033',
+  pink2: '#FF33CC',
+  orange2: '#FF6600',
+  passionorange: '#FF6600',
+  yellow2: '#999900',
+  madyellow: '#999900',
+  green2: '#00CC66',
+  elementalgreen: '#00CC66',
+  cyan2: '#00CCCC',
+  blue2: '#3399FF',
+  marineblue: '#3399FF',
+  purple2: '#6633CC',
+  nobleviolet: '#6633CC',
+  black2: '#666666',
+};
+
+const WHITE_RGB = 0xffffff;
+
+/**
+ * Resolve Niconico color from mail commands ("184 red shita", "#FF00FF")
+ */
+const parseNicoColor = (mail: string): string | undefined => {
+  for (const command of mail.toLowerCase().split(/\s+/)) {
+    if (/^#[0-9a-f]{6}$/.test(command)) {
+      return command.toUpperCase();
+    }
+    const named = NICO_COLORS[command];
+    if (named) return named;
+  }
+  return undefined;
+};
+
+/**
+ * Convert decimal RGB (Bilibili) to hex, leaving default white unset
+ */
+const parseDecimalColor = (value: string | undefined): string | undefined => {
+  const rgb = Number.parseInt(value ?? '', 10);
+  if (!Number.isFinite(rgb) || rgb < 0 || rgb > WHITE_RGB || rgb === WHITE_RGB) {
+    return undefined;
+  }
+  return `#${rgb.toString(16).padStart(6, '0').toUpperCase()}`;
+};
+
+const createMessage = (
+  text: string,
+  videoOffsetMs: number,
+  color: string | undefined
+): ChatMessage | null => {
+  const normalized = normalizeChatText(text);
+  if (!normalized || !Number.isFinite(videoOffsetMs) || videoOffsetMs < 0) {
+    return null;
+  }
+
+  const message: ChatMessage = {
+    text: normalized,
+    kind: 'text',
+    timestamp: Date.now(),
+    authorType: 'normal',
+    videoOffsetMs,
+  };
+  if (color) {
+    message.color = color;
+  }
+  return message;
+};
+
+/**
+ * Niconico: <packet><chat vpos="1234" mail="184 red">text</chat></packet>
+ * vpos is in centiseconds
+ */
+const parseNiconico = (doc: Document): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  for (const chat of doc.querySelectorAll('chat')) {
+    // Deleted comments are kept in some dumps with a "deleted" attribute
+    if (chat.hasAttribute('deleted')) continue;
+
+    const vpos = Number.parseInt(chat.getAttribute('vpos') ?? '', 10);
+    const color = parseNicoColor(chat.getAttribute('mail') ?? '');
+    const message = createMessage(chat.textContent ?? '', vpos * 10, color);
+    if (message) messages.push(message);
+  }
+  return messages;
+};
+
+/**
+ * Bilibili: <i><d p="time,mode,size,color,...">text</d></i>
+ * time is in seconds (float), color is decimal RGB
+ */
+const parseBilibili = (doc: Document): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  for (const entry of doc.querySelectorAll('d[p]')) {
+    const params = (entry.getAttribute('p') ?? '').split(',');
+    const seconds = Number.parseFloat(params[0] ?? '');
+    const color = parseDecimalColor(params[3]);
+    const message = createMessage(entry.textContent ?? '', seconds * 1000, color);
+    if (message) messages.push(message);
+  }
+  return messages;
+};
+
+/**
+ * Parse a Niconico or Bilibili XML comment file
+ * @throws Error if the file is not valid XML or not a known danmaku format
+ */
+export const parseDanmakuXml = (xml: string): DanmakuTrack => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Invalid XML comment file');
+  }
+
+  let format: DanmakuFormat;
+  let messages: ChatMessage[];
+  if (doc.querySelector('chat[vpos]')) {
+    format = 'niconico';
+    messages = parseNiconico(doc);
+  } else if (doc.querySelector('d[p]')) {
+    format = 'bilibili';
+    messages = parseBilibili(doc);
+  } else {
+    throw new Error('Unrecognized comment file format (expected Niconico or Bilibili XML)');
+  }
+
+  messages.sort((a, b) => (a.videoOffsetMs ?? 0) - (b.videoOffsetMs ?? 0));
+  return { format, messages };
+};
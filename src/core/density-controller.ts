@@ -0,0 +1,167 @@
+/**
+ * Density Controller
+ *
+ * Auto density: every few seconds, measures how fast chat arrives and how
+ * many lanes are busy, then retunes the renderer from the single density
+ * setting (1 = sparse, 10 = dense). Quiet chat scrolls slower so the screen
+ * does not look empty; fast chat is sampled evenly so the queue holds a
+ * spread of the conversation instead of the first seconds of a burst.
+ */
+
+import { type DensityTuning, type OverlaySettings, SETTINGS_LIMITS } from '@app-types';
+import type { Renderer } from '@core/renderer';
+
+const DENSITY = {
+  TICK_MS: 2000,
+  /** Weight of the latest tick in the velocity average (0-1) */
+  VELOCITY_SMOOTHING: 0.4,
+  /** Regular chat per second at the sparse and dense ends */
+  RATE_MIN: 1,
+  RATE_MAX: 12,
+  /** Comments on screen at the sparse and dense ends */
+  CONCURRENT_MIN: 10,
+  CONCURRENT_MAX: SETTINGS_LIMITS.maxConcurrentMessages.max,
+  /** Speed scale when chat arrives far below the admission rate */
+  QUIET_SPEED_SCALE: 0.75,
+  /** Lane occupancy above which comments speed up to free lanes */
+  BUSY_OCCUPANCY: 0.7,
+  /** Speed scale when every lane is busy */
+  BUSY_SPEED_SCALE: 1.3,
+  /** Largest speed change per tick, so consecutive comments stay in step */
+  SPEED_STEP: 0.1,
+  /** Offer the queue this many times the admission rate when sampling */
+  SAMPLE_HEADROOM: 2,
+} as const;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * Map the density setting, chat velocity (messages/s) and lane occupancy (0-1)
+ * to renderer overrides
+ */
+const computeTuning = (
+  settings: Readonly<OverlaySettings>,
+  velocity: number,
+  occupancy: number
+): DensityTuning => {
+  const { min, max } = SETTINGS_LIMITS.density;
+  const level = (clamp(settings.density, min, max) - min) / (max - min);
+  const rate = lerp(DENSITY.RATE_MIN, DENSITY.RATE_MAX, level);
+
+  let speedScale = lerp(DENSITY.QUIET_SPEED_SCALE, 1, Math.min(1, velocity / rate));
+  if (occupancy > DENSITY.BUSY_OCCUPANCY) {
+    const busy = (occupancy - DENSITY.BUSY_OCCUPANCY) / (1 - DENSITY.BUSY_OCCUPANCY);
+    speedScale *= lerp(1, DENSITY.BUSY_SPEED_SCALE, busy);
+  }
+
+  const offered = rate * DENSITY.SAMPLE_HEADROOM;
+  return {
+    maxMessagesPerSecond: rate,
+    maxConcurrentMessages: Math.round(lerp(DENSITY.CONCURRENT_MIN, DENSITY.CONCURRENT_MAX, level)),
+    speedPxPerSec: clamp(
+      settings.speedPxPerSec * speedScale,
+      SETTINGS_LIMITS.speedPxPerSec.min,
+      SETTINGS_LIMITS.speedPxPerSec.max
+    ),
+    sampleRate: velocity > offered ? offered / velocity : 1,
+  };
+};
+
+export class DensityController {
+  private timer: number | null = null;
+  /** Messages received since the last tick */
+  private received = 0;
+  private lastTickAt = 0;
+  /** Smoothed chat velocity (messages/s) */
+  private velocity = 0;
+  private tuning: DensityTuning | null = null;
+
+  constructor(
+    private readonly getSettings: () => Readonly<OverlaySettings>,
+    private readonly getRenderer: () => Renderer | null
+  ) {}
+
+  /**
+   * Count an incoming chat message (before filtering)
+   */
+  recordMessage(): void {
+    if (this.timer !== null) {
+      this.received++;
+    }
+  }
+
+  /**
+   * Start measuring, or retune right away if already running (density changed)
+   */
+  start(): void {
+    if (this.timer === null) {
+      this.received = 0;
+      this.velocity = 0;
+      this.lastTickAt = Date.now();
+      this.timer = window.setInterval(() => this.tick(), DENSITY.TICK_MS);
+      console.log('[DensityController] Auto density started');
+    }
+    this.update();
+  }
+
+  /**
+   * Stop measuring and hand control back to the manual settings
+   */
+  stop(): void {
+    if (this.timer === null) return;
+
+    window.clearInterval(this.timer);
+    this.timer = null;
+    this.tuning = null;
+    this.getRenderer()?.setDensityTuning(null);
+    console.log('[DensityController] Auto density stopped');
+  }
+
+  /**
+   * Current overrides (for a renderer created while running)
+   */
+  getTuning(): DensityTuning | null {
+    return this.tuning;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const elapsedMs = now - this.lastTickAt;
+    this.lastTickAt = now;
+    if (elapsedMs <= 0) return;
+
+    const instant = (this.received / elapsedMs) * 1000;
+    this.received = 0;
+    this.velocity += (instant - this.velocity) * DENSITY.VELOCITY_SMOOTHING;
+    this.update();
+  }
+
+  private update(): void {
+    const renderer = this.getRenderer();
+    const tuning = computeTuning(
+      this.getSettings(),
+      this.velocity,
+      renderer?.getLaneOccupancy() ?? 0
+    );
+
+    const previous = this.tuning;
+    if (previous) {
+      tuning.speedPxPerSec = clamp(
+        tuning.speedPxPerSec,
+        previous.speedPxPerSec * (1 - DENSITY.SPEED_STEP),
+        previous.speedPxPerSec * (1 + DENSITY.SPEED_STEP)
+      );
+    }
+
+    this.tuning = tuning;
+    renderer?.setDensityTuning(tuning);
+    console.log(
+      `[DensityController] Debug: ${this.velocity.toFixed(1)} msg/s → ` +
+        `rate ${tuning.maxMessagesPerSecond.toFixed(1)}/s, ` +
+        `speed ${Math.round(tuning.speedPxPerSec)}px/s, ` +
+        `sample ${(tuning.sampleRate * 100).toFixed(0)}%`
+    );
+  }
+}
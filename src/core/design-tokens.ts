@@ -21,6 +21,20 @@ export const colors = {
     red: { r: 230, g: 33, b: 23 }, // Tier 7
   },
 
+  // Membership event accents
+  membership: {
+    new: { r: 15, g: 157, b: 88 }, // Member green
+    milestone: { r: 255, g: 202, b: 40 }, // Anniversary gold
+    gift: { r: 171, g: 71, b: 188 }, // Gift purple
+    redemption: { r: 29, g: 233, b: 182 }, // Received gift teal
+  },
+
+  // Links and @mentions inside messages
+  richText: {
+    link: '#3ea6ff', // YouTube link blue
+    mentionHighlight: { r: 255, g: 214, b: 0 }, // Owner gold, for mentions of owner/viewer
+  },
+
   // UI colors
   ui: {
     background: '#1a1a1a',
@@ -1,15 +1,18 @@
+import { getSelectors } from '@core/selectors';
+
 export interface SelectorMatch<T extends Element> {
   element: T;
   selector: string;
 }
 
-export const PLAYER_CONTAINER_SELECTORS = [
-  '#movie_player',
-  '.html5-video-player',
-  'ytd-player',
-  '#player-container',
+const CHANNEL_OWNER_LINK_SELECTORS = [
+  'ytd-watch-metadata #owner ytd-channel-name a',
+  'ytd-video-owner-renderer ytd-channel-name a',
 ] as const;
 
+/** Signed-in viewer's chat name, shown next to the chat input */
+const VIEWER_CHAT_NAME_SELECTOR = 'yt-live-chat-message-input-renderer #author-name';
+
 export const sleep = (ms: number): Promise<void> =>
   new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -54,3 +57,53 @@ export const waitForElementMatch = async <T extends Element>(
 
   return null;
 };
+
+/**
+ * Read the chat names @mentions may address that matter to the viewer: the
+ * channel owner's name and @handle, and the viewer's own chat name
+ */
+export const getMentionTargets = (): string[] => {
+  const names: string[] = [];
+
+  const ownerLink = findElementMatch<HTMLAnchorElement>(CHANNEL_OWNER_LINK_SELECTORS)?.element;
+  if (ownerLink) {
+    names.push(ownerLink.textContent ?? '');
+    const handle = ownerLink.getAttribute('href')?.match(/^\/(@[^/?#]+)/)?.[1];
+    if (handle) {
+      try {
+        names.push(decodeURIComponent(handle));
+      } catch {
+        names.push(handle);
+      }
+    }
+  }
+
+  try {
+    const chatDocument = findElementMatch<HTMLIFrameElement>(getSelectors('chatIframe'))?.element
+      .contentDocument;
+    names.push(chatDocument?.querySelector(VIEWER_CHAT_NAME_SELECTOR)?.textContent ?? '');
+  } catch {
+    // Chat frame not accessible
+  }
+
+  return names.map((name) => name.trim()).filter(Boolean);
+};
+
+/**
+ * Save text content as a local file download (no network involved)
+ */
+export const downloadTextFile = (
+  fileName: string,
+  content: string,
+  mimeType = 'text/plain;charset=utf-8'
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.style.display = 'none';
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,190 @@
+/**
+ * DVR Buffer
+ *
+ * Keeps a bounded in-memory history of recent live chat messages tagged with
+ * the live-edge video time at which they arrived. When the viewer rewinds a
+ * live stream, the history is replayed against currentTime so the overlay
+ * matches the rewound picture; once playback catches up with the live edge,
+ * control returns to live chat.
+ *
+ * Nothing is persisted - the history lives only as long as the page session.
+ */
+
+import type { ChatMessage } from '@app-types';
+import { VideoTimeline } from '@core/video-timeline';
+
+export type DvrEmitCallback = (message: ChatMessage) => void;
+export type DvrModeChangeCallback = (replaying: boolean) => void;
+
+/**
+ * Clock readings required from the video element
+ */
+interface DvrClock {
+  getCurrentTimeMs: () => number | null;
+  getLiveLatencyMs: () => number | null;
+}
+
+/**
+ * Configuration constants
+ */
+const CONFIG = {
+  /** Maximum number of messages kept in history (oldest evicted first) */
+  MAX_ENTRIES: 3000,
+  /** Mode check interval (ms) */
+  CHECK_INTERVAL_MS: 500,
+  /** Enter DVR playback when this far behind the normal live latency (ms) */
+  ENTER_THRESHOLD_MS: 15000,
+  /** Return to live chat when within this distance of the normal latency (ms) */
+  EXIT_THRESHOLD_MS: 5000,
+  /** Smoothing factor for the baseline (normal) live latency */
+  BASELINE_SMOOTHING: 0.05,
+} as const;
+
+/**
+ * DvrBuffer class
+ *
+ * "Behind the live edge" is measured against a baseline latency learned while
+ * watching live, since normal player latency varies from ~2s (ultra low) to
+ * ~30s (normal latency) between streams.
+ */
+export class DvrBuffer {
+  private history = new VideoTimeline(CONFIG.MAX_ENTRIES);
+  private checkTimer: number | null = null;
+  private clock: DvrClock | null = null;
+  private emit: DvrEmitCallback | null = null;
+  private onModeChange: DvrModeChangeCallback | null = null;
+  private baselineLatencyMs: number | null = null;
+  private replaying = false;
+
+  /**
+   * Start watching the playback position
+   */
+  start(clock: DvrClock, emit: DvrEmitCallback, onModeChange: DvrModeChangeCallback): void {
+    this.stop();
+    this.clock = clock;
+    this.emit = emit;
+    this.onModeChange = onModeChange;
+
+    this.checkTimer = window.setInterval(() => {
+      this.checkMode();
+    }, CONFIG.CHECK_INTERVAL_MS);
+
+    console.log('[DvrBuffer] Started');
+  }
+
+  /**
+   * Record a live message at the given live-edge time
+   */
+  record(message: ChatMessage, liveEdgeMs: number): void {
+    this.history.add({ ...message, videoOffsetMs: liveEdgeMs });
+  }
+
+  /**
+   * Drop a message from history by chat item ID (deleted or retracted)
+   */
+  remove(messageId: string): void {
+    this.history.remove(messageId);
+  }
+
+  /**
+   * Check if history is currently being replayed (viewer is behind live)
+   */
+  isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  /**
+   * Reposition history playback after a seek
+   */
+  handleSeek(currentTimeMs: number): void {
+    if (this.replaying) {
+      this.history.seek(currentTimeMs);
+    }
+  }
+
+  /**
+   * Compare current latency with the baseline and switch modes
+   */
+  private checkMode(): void {
+    const latencyMs = this.clock?.getLiveLatencyMs() ?? null;
+    if (latencyMs === null) return;
+
+    if (this.baselineLatencyMs === null) {
+      this.baselineLatencyMs = latencyMs;
+      return;
+    }
+
+    const behindMs = latencyMs - this.baselineLatencyMs;
+
+    if (!this.replaying) {
+      if (behindMs > CONFIG.ENTER_THRESHOLD_MS) {
+        this.enterReplay();
+        return;
+      }
+      // Learn the normal latency only while watching live
+      this.baselineLatencyMs += behindMs * CONFIG.BASELINE_SMOOTHING;
+      return;
+    }
+
+    if (behindMs < CONFIG.EXIT_THRESHOLD_MS) {
+      this.exitReplay();
+    }
+  }
+
+  /**
+   * Switch to history playback
+   */
+  private enterReplay(): void {
+    const clock = this.clock;
+    const emit = this.emit;
+    if (!clock || !emit) return;
+
+    this.replaying = true;
+    this.onModeChange?.(true);
+
+    this.history.start(clock.getCurrentTimeMs, emit);
+    const currentTimeMs = clock.getCurrentTimeMs();
+    if (currentTimeMs !== null) {
+      this.history.seek(currentTimeMs);
+    }
+
+    console.log(`[DvrBuffer] Behind live edge, replaying ${this.history.size()} buffered messages`);
+  }
+
+  /**
+   * Switch back to live chat
+   */
+  private exitReplay(): void {
+    this.replaying = false;
+    this.history.stop();
+    this.onModeChange?.(false);
+    console.log('[DvrBuffer] Caught up with live edge, switching to live chat');
+  }
+
+  /**
+   * Stop watching (history is kept)
+   */
+  stop(): void {
+    if (this.checkTimer !== null) {
+      window.clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    if (this.history.isRunning()) {
+      this.history.stop();
+    }
+    this.clock = null;
+    this.emit = null;
+    this.onModeChange = null;
+    this.replaying = false;
+  }
+
+  /**
+   * Destroy and cleanup all resources
+   */
+  destroy(): void {
+    this.stop();
+    this.history.destroy();
+    this.baselineLatencyMs = null;
+    console.log('[DvrBuffer] Destroyed');
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * JSON Chat Source
+ *
+ * MessageSource that reads the chat action JSON the live chat frame already
+ * receives instead of scraping rendered chat items:
+ *   - the ytInitialData bootstrap of the chat frame
+ *   - get_live_chat / get_live_chat_replay continuation responses, observed
+ *     by wrapping the chat frame's fetch (responses are cloned, never altered)
+ *
+ * No extra requests are made and the chat panel is never opened or toggled,
+ * so the overlay keeps working with the panel collapsed as long as the page
+ * keeps the chat frame loaded. While the frame has no chat loaded, no data is
+ * available: this is reported, and reading resumes when the frame loads chat.
+ */
+
+import type { ChatBanner, ChatMessage, OverlaySettings } from '@app-types';
+import {
+  type ChatActionEvent,
+  getContinuationChatActions,
+  getInitialChatActions,
+  isReplayChatData,
+  parseChatActions,
+} from '@core/chat-actions';
+import { waitForElementMatch } from '@core/dom';
+import type {
+  BannerCallback,
+  DedupeStats,
+  MessageCallback,
+  MessageSource,
+  RetractCallback,
+} from '@core/message-source';
+import { getSelectors } from '@core/selectors';
+
+/**
+ * Configuration constants
+ */
+const CONFIG = {
+  /** Attempts to find the chat frame element */
+  FRAME_ATTEMPTS: 20,
+  /** Interval between chat frame lookups (ms) */
+  FRAME_INTERVAL_MS: 500,
+  /** Source counts as active for this long after the last message (ms) */
+  ACTIVE_WINDOW_MS: 30000,
+  /** Number of recent chat item IDs remembered for de-duplication and deletion tracking */
+  MAX_TRACKED_IDS: 2000,
+} as const;
+
+/**
+ * Continuation endpoints (live and replay)
+ */
+const CHAT_ENDPOINT_PATTERN = /\/youtubei\/v1\/live_chat\/get_live_chat(_replay)?\b/;
+
+type ChatFrameWindow = Window & typeof globalThis & { ytInitialData?: unknown };
+
+const getRequestUrl = (input: RequestInfo | URL): string => {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+};
+
+/**
+ * JsonChatSource class
+ */
+export class JsonChatSource implements MessageSource {
+  private callback: MessageCallback | null = null;
+  private retractCallback: RetractCallback | null = null;
+  private bannerCallback: BannerCallback | null = null;
+  /** Shown banner action/panel ID → banner kind */
+  private readonly activeBanners = new Map<string, ChatBanner['kind']>();
+  /** Emitted chat item ID → author channel ID (insertion ordered, bounded) */
+  private readonly emittedItems = new Map<string, string | undefined>();
+  private duplicatesDropped = 0;
+  private iframe: HTMLIFrameElement | null = null;
+  private restoreFetch: (() => void) | null = null;
+  private lastMessageTime = 0;
+  private replayMode = false;
+
+  private readonly handleFrameLoad = () => {
+    // The frame navigated (new video or chat mode): hook its new window
+    this.attachToFrame();
+  };
+
+  constructor(private readonly getSettings: (() => Readonly<OverlaySettings>) | null = null) {}
+
+  /**
+   * Start reading chat payloads from the chat frame
+   */
+  async start(
+    callback: MessageCallback,
+    onRetract?: RetractCallback,
+    onBanner?: BannerCallback
+  ): Promise<boolean> {
+    this.stop();
+    this.callback = callback;
+    this.retractCallback = onRetract ?? null;
+    this.bannerCallback = onBanner ?? null;
+
+    const match = await waitForElementMatch<HTMLIFrameElement>(getSelectors('chatIframe'), {
+      attempts: CONFIG.FRAME_ATTEMPTS,
+      intervalMs: CONFIG.FRAME_INTERVAL_MS,
+    });
+    // stop() may have been called while waiting
+    if (!match || this.callback !== callback) {
+      console.warn('[JsonChatSource] Chat frame not found');
+      return false;
+    }
+
+    this.iframe = match.element;
+    this.iframe.addEventListener('load', this.handleFrameLoad);
+
+    if (!this.attachToFrame()) {
+      this.stop();
+      return false;
+    }
+
+    console.log(
+      `[JsonChatSource] Reading chat payloads${this.replayMode ? ' (replay)' : ''} from ${match.selector}`
+    );
+    return true;
+  }
+
+  /**
+   * Hook the chat frame's current window and read its bootstrap data
+   * @returns false if the frame window is not accessible
+   */
+  private attachToFrame(): boolean {
+    this.unhookFetch();
+
+    const frameWindow = this.getFrameWindow();
+    if (!frameWindow) {
+      console.warn('[JsonChatSource] Chat frame window is not accessible');
+      return false;
+    }
+
+    this.replayMode = this.iframe?.src.includes('live_chat_replay') ?? false;
+    this.hookFetch(frameWindow);
+
+    const initialData = frameWindow.ytInitialData;
+    if (initialData === undefined) {
+      // No chat page in the frame (collapsed or unloaded): nothing to read until one loads
+      console.warn('[JsonChatSource] Chat frame has no chat loaded, no chat data available');
+    } else {
+      this.replayMode ||= isReplayChatData(initialData);
+      // Live bootstrap messages are chat history posted before we attached;
+      // the DOM scraper ignores them too, but the pinned message and poll are
+      // current. Replay actions are timed by video offset.
+      this.emitActions(getInitialChatActions(initialData), !this.replayMode);
+    }
+
+    return true;
+  }
+
+  private getFrameWindow(): ChatFrameWindow | null {
+    try {
+      const frameWindow = this.iframe?.contentWindow as ChatFrameWindow | null | undefined;
+      // Accessing fetch throws for cross-origin frames
+      return frameWindow && typeof frameWindow.fetch === 'function' ? frameWindow : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Wrap the frame's fetch to observe continuation responses
+   */
+  private hookFetch(frameWindow: ChatFrameWindow): void {
+    const originalFetch = frameWindow.fetch;
+    const hookedFetch: typeof fetch = async (input, init) => {
+      const response = await originalFetch.call(frameWindow, input, init);
+      try {
+        if (CHAT_ENDPOINT_PATTERN.test(getRequestUrl(input))) {
+          void this.readResponse(response.clone());
+        }
+      } catch (error) {
+        console.warn('[JsonChatSource] Failed to inspect chat response:', error);
+      }
+      return response;
+    };
+
+    frameWindow.fetch = hookedFetch;
+    this.restoreFetch = () => {
+      // Leave the frame alone if something else replaced fetch after us
+      if (frameWindow.fetch === hookedFetch) {
+        frameWindow.fetch = originalFetch;
+      }
+    };
+  }
+
+  private unhookFetch(): void {
+    if (this.restoreFetch) {
+      try {
+        this.restoreFetch();
+      } catch {
+        // Frame window already gone
+      }
+      this.restoreFetch = null;
+    }
+  }
+
+  private async readResponse(response: Response): Promise<void> {
+    if (!response.ok) return;
+    try {
+      this.emitActions(getContinuationChatActions(await response.json()));
+    } catch (error) {
+      console.warn('[JsonChatSource] Failed to parse chat response:', error);
+    }
+  }
+
+  /**
+   * @param bannersOnly only apply banner events (live chat history)
+   */
+  private emitActions(actions: unknown[], bannersOnly = false): void {
+    if (!this.callback || actions.length === 0) return;
+
+    for (const event of parseChatActions(actions, this.getSettings?.())) {
+      if (bannersOnly && event.type !== 'banner' && event.type !== 'banner-remove') continue;
+      this.handleEvent(event);
+    }
+  }
+
+  private handleEvent(event: ChatActionEvent): void {
+    switch (event.type) {
+      case 'add':
+        this.emitMessage(event.message);
+        return;
+      case 'delete':
+        this.retract(event.itemId);
+        return;
+      case 'delete-author':
+        for (const [itemId, channelId] of this.emittedItems) {
+          if (channelId === event.channelId) {
+            this.retract(itemId);
+          }
+        }
+        return;
+      case 'banner':
+        if (event.bannerId) {
+          this.activeBanners.set(event.bannerId, event.banner.kind);
+        }
+        this.bannerCallback?.(event.banner.kind, event.banner);
+        return;
+      case 'banner-remove': {
+        const kind = this.activeBanners.get(event.bannerId);
+        if (!kind) return;
+        this.activeBanners.delete(event.bannerId);
+        this.bannerCallback?.(kind, null);
+        return;
+      }
+      case 'replace':
+        if (!this.emittedItems.has(event.itemId)) {
+          // Placeholder replaced by the real item (e.g. the viewer's own message)
+          if (event.message) this.emitMessage(event.message);
+        } else if (!event.message) {
+          // Replaced by something that is not a chat message (deleted state)
+          this.retract(event.itemId);
+        }
+        return;
+    }
+  }
+
+  private emitMessage(message: ChatMessage): void {
+    if (message.id) {
+      // Replay payloads can overlap; never show the same item twice
+      if (this.emittedItems.has(message.id)) {
+        this.duplicatesDropped++;
+        return;
+      }
+      this.emittedItems.set(message.id, message.authorChannelId);
+      if (this.emittedItems.size > CONFIG.MAX_TRACKED_IDS) {
+        const oldest = this.emittedItems.keys().next().value;
+        if (oldest !== undefined) {
+          this.emittedItems.delete(oldest);
+        }
+      }
+    }
+
+    this.lastMessageTime = Date.now();
+    this.callback?.(message);
+  }
+
+  private retract(itemId: string): void {
+    if (!this.emittedItems.delete(itemId)) return;
+    this.retractCallback?.(itemId);
+  }
+
+  /**
+   * Stop reading payloads and restore the frame's fetch
+   */
+  stop(): void {
+    this.unhookFetch();
+    this.iframe?.removeEventListener('load', this.handleFrameLoad);
+    this.iframe = null;
+    this.callback = null;
+    this.retractCallback = null;
+    this.bannerCallback = null;
+    this.activeBanners.clear();
+    this.emittedItems.clear();
+    this.duplicatesDropped = 0;
+    this.replayMode = false;
+  }
+
+  /**
+   * Get de-duplication counters for diagnostics
+   */
+  getDedupeStats(): DedupeStats {
+    return {
+      trackedIds: this.emittedItems.size,
+      duplicatesDropped: this.duplicatesDropped,
+    };
+  }
+
+  /**
+   * Check if the chat is a replay (VOD) chat
+   */
+  isReplay(): boolean {
+    return this.replayMode;
+  }
+
+  /**
+   * Check if chat payloads arrived recently
+   */
+  isActive(): boolean {
+    return Date.now() - this.lastMessageTime < CONFIG.ACTIVE_WINDOW_MS;
+  }
+}
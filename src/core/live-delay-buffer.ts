@@ -0,0 +1,141 @@
+/**
+ * Live Delay Buffer
+ *
+ * Sits between the chat source and the renderer on live streams.
+ * The chat DOM updates in real time while the player runs several seconds
+ * behind the live edge, so each message is held until the video catches up
+ * with the moment it was posted (estimated latency + manual offset).
+ */
+
+import type { ChatMessage } from '@app-types';
+
+export type DelayEmitCallback = (message: ChatMessage) => void;
+
+/**
+ * Configuration constants
+ */
+const CONFIG = {
+  /** Release check interval (ms) */
+  TICK_INTERVAL_MS: 100,
+  /** Smoothing factor for the latency estimate (exponential moving average) */
+  LATENCY_SMOOTHING: 0.1,
+  /** Upper bound for the total delay (ms) - beyond this the viewer has rewound */
+  MAX_DELAY_MS: 60000,
+  /** Maximum number of held messages */
+  MAX_PENDING: 1000,
+} as const;
+
+/**
+ * LiveDelayBuffer class
+ *
+ * Messages arrive in timestamp order, so a FIFO queue is sufficient: the
+ * head is always the next message to release.
+ */
+export class LiveDelayBuffer {
+  private pending: ChatMessage[] = [];
+  private tickTimer: number | null = null;
+  private getLatencyMs: (() => number | null) | null = null;
+  private emit: DelayEmitCallback | null = null;
+  private smoothedLatencyMs: number | null = null;
+
+  constructor(private manualOffsetMs = 0) {}
+
+  /**
+   * Start releasing messages using the given latency source
+   */
+  start(getLatencyMs: () => number | null, emit: DelayEmitCallback): void {
+    this.stop();
+    this.getLatencyMs = getLatencyMs;
+    this.emit = emit;
+
+    this.tickTimer = window.setInterval(() => {
+      this.tick();
+    }, CONFIG.TICK_INTERVAL_MS);
+
+    console.log('[LiveDelayBuffer] Started');
+  }
+
+  /**
+   * Hold a message until its release time
+   */
+  add(message: ChatMessage): void {
+    this.pending.push(message);
+
+    if (this.pending.length > CONFIG.MAX_PENDING) {
+      this.pending.splice(0, this.pending.length - CONFIG.MAX_PENDING);
+    }
+  }
+
+  /**
+   * Drop a held message by chat item ID (deleted or retracted)
+   */
+  remove(messageId: string): void {
+    this.pending = this.pending.filter((message) => message.id !== messageId);
+  }
+
+  /**
+   * Update the manual offset (positive = show chat later)
+   */
+  setManualOffsetMs(offsetMs: number): void {
+    this.manualOffsetMs = offsetMs;
+  }
+
+  /**
+   * Current total delay applied to messages (ms)
+   */
+  getDelayMs(): number {
+    const latencyMs = this.smoothedLatencyMs ?? 0;
+    return Math.max(0, Math.min(CONFIG.MAX_DELAY_MS, latencyMs + this.manualOffsetMs));
+  }
+
+  /**
+   * Sample latency and release due messages
+   */
+  private tick(): void {
+    if (!this.emit) return;
+
+    const sampleMs = this.getLatencyMs?.() ?? null;
+    if (sampleMs !== null) {
+      this.smoothedLatencyMs =
+        this.smoothedLatencyMs === null
+          ? sampleMs
+          : this.smoothedLatencyMs + (sampleMs - this.smoothedLatencyMs) * CONFIG.LATENCY_SMOOTHING;
+    }
+
+    const releaseBefore = Date.now() - this.getDelayMs();
+    let released = 0;
+    for (const message of this.pending) {
+      if (message.timestamp > releaseBefore) break;
+      released++;
+    }
+
+    if (released === 0) return;
+
+    const due = this.pending.splice(0, released);
+    for (const message of due) {
+      this.emit(message);
+    }
+  }
+
+  /**
+   * Stop releasing and drop held messages
+   */
+  stop(): void {
+    if (this.tickTimer !== null) {
+      window.clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.getLatencyMs = null;
+    this.emit = null;
+    this.pending = [];
+    this.smoothedLatencyMs = null;
+  }
+
+  /**
+   * Destroy and cleanup all resources
+   */
+  destroy(): void {
+    this.stop();
+    console.log('[LiveDelayBuffer] Destroyed');
+  }
+}
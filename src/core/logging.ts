@@ -15,6 +15,14 @@ const LOG_PREFIXES = [
   '[SettingsUi]',
   '[Renderer]',
   '[VideoSync]',
+  '[VideoTimeline]',
+  '[LiveDelayBuffer]',
+  '[DvrBuffer]',
+  '[ScriptedSource]',
+  '[JsonChatSource]',
+  '[ChatActions]',
+  '[PopoutBridge]',
+  '[DensityController]',
 ] as const;
 
 const VERBOSE_LOG_MARKERS = [
@@ -0,0 +1,53 @@
+/**
+ * Message Source
+ *
+ * Common interface for anything that produces ChatMessages for the overlay.
+ * The live chat DOM scraper is one implementation; scripted sources feed
+ * canned messages for manual testing, and other inputs can plug in without
+ * touching the scraper.
+ */
+
+import type { ChatBanner, ChatMessage } from '@app-types';
+
+export type MessageCallback = (message: ChatMessage) => void;
+
+/**
+ * Called with the chat item ID of a message that was deleted by a moderator,
+ * retracted by its author, or removed with a timed-out/banned author
+ */
+export type RetractCallback = (messageId: string) => void;
+
+/**
+ * Called when the pinned message or poll appears, changes, or is dismissed (null)
+ */
+export type BannerCallback = (kind: ChatBanner['kind'], banner: ChatBanner | null) => void;
+
+/**
+ * Duplicate-suppression counters for diagnostics
+ */
+export interface DedupeStats {
+  /** Chat item IDs currently remembered */
+  trackedIds: number;
+  /** Re-inserted or repeated items that were not emitted again */
+  duplicatesDropped: number;
+}
+
+export interface MessageSource {
+  /**
+   * Start producing messages
+   * @returns false if the source could not be started
+   */
+  start(
+    callback: MessageCallback,
+    onRetract?: RetractCallback,
+    onBanner?: BannerCallback
+  ): Promise<boolean>;
+  /** Stop producing messages and release resources */
+  stop(): void;
+  /** Check if the source produced messages recently */
+  isActive(): boolean;
+  /** Check if messages carry replay video offsets (VOD chat) */
+  isReplay(): boolean;
+  /** Duplicate-suppression counters, for sources that track item IDs */
+  getDedupeStats?(): DedupeStats;
+}
@@ -0,0 +1,141 @@
+/**
+ * Mute Filter
+ *
+ * Applies user keyword and regular-expression rules to chat messages before
+ * they reach the renderer. A matching rule hides the message, masks the
+ * matched text with ●●●, or dims the message; long-standing members can be
+ * exempted per rule. Hit counts are kept in memory for the settings panel and
+ * never stored.
+ */
+
+import type { ChatMessage, ContentSegment, MuteRule } from '@app-types';
+
+const MASK = '●●●';
+
+interface CompiledRule {
+  rule: MuteRule;
+  pattern: RegExp;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a rule's pattern (keywords match case-insensitively anywhere)
+ * @returns null for empty or invalid patterns, and for patterns matching
+ *   the empty string (they would match every message)
+ */
+export const compileMuteRule = (rule: MuteRule): RegExp | null => {
+  const source = rule.pattern.trim();
+  if (!source) return null;
+
+  try {
+    const pattern = new RegExp(rule.regex ? source : escapeRegExp(source), 'gi');
+    return ''.search(pattern) < 0 ? pattern : null;
+  } catch {
+    return null;
+  }
+};
+
+let ruleCounter = 0;
+
+/**
+ * Create an ID for a new rule (keys the hit counter)
+ */
+export const createMuteRuleId = (): string => `rule-${Date.now().toString(36)}-${ruleCounter++}`;
+
+/**
+ * Check if the author's membership tenure exempts them from a rule
+ * (members whose tenure is unknown are not exempt)
+ */
+const isExempt = (rule: MuteRule, message: ChatMessage): boolean =>
+  rule.exemptMemberMonths !== undefined &&
+  message.memberMonths !== undefined &&
+  message.memberMonths >= rule.exemptMemberMonths;
+
+const matches = (pattern: RegExp, value: string | undefined): boolean =>
+  value !== undefined && value.search(pattern) >= 0;
+
+/**
+ * Mask matches in text, link and mention segments (masked links lose their target)
+ */
+const maskSegments = (segments: ContentSegment[], pattern: RegExp): ContentSegment[] =>
+  segments.map((segment) => {
+    if (segment.type === 'emoji' || !matches(pattern, segment.content)) return segment;
+    return { type: 'text', content: segment.content.replace(pattern, MASK) };
+  });
+
+const maskText = (message: ChatMessage, pattern: RegExp): ChatMessage => {
+  const text = message.text.replace(pattern, MASK);
+  const masked: ChatMessage = { ...message, text };
+  if (message.content) {
+    const content = maskSegments(message.content, pattern);
+    // A match spanning several segments: fall back to the masked plain text
+    const changed = content.some((segment, index) => segment !== message.content?.[index]);
+    masked.content = changed ? content : [{ type: 'text', content: text }];
+  }
+  return masked;
+};
+
+export class MuteFilter {
+  private compiled: CompiledRule[] = [];
+  /** Rule ID → matched messages (this page session) */
+  private readonly hits = new Map<string, number>();
+
+  /**
+   * Replace the active rules; invalid patterns are skipped
+   */
+  setRules(rules: readonly MuteRule[]): void {
+    this.compiled = [];
+    for (const rule of rules) {
+      const pattern = compileMuteRule(rule);
+      if (!pattern) {
+        if (rule.pattern.trim()) {
+          console.warn(`[MuteFilter] Ignoring invalid pattern: ${rule.pattern}`);
+        }
+        continue;
+      }
+      this.compiled.push({ rule, pattern });
+    }
+  }
+
+  /**
+   * Apply the rules to a message
+   * @returns the message to show (masked or dimmed), or null to hide it
+   */
+  apply(message: ChatMessage): ChatMessage | null {
+    let result = message;
+
+    for (const { rule, pattern } of this.compiled) {
+      if (isExempt(rule, result)) continue;
+
+      const textHit = rule.scope !== 'author' && matches(pattern, result.text);
+      const authorHit = rule.scope !== 'text' && matches(pattern, result.author);
+      if (!textHit && !authorHit) continue;
+
+      this.hits.set(rule.id, (this.hits.get(rule.id) ?? 0) + 1);
+
+      if (rule.action === 'hide') return null;
+
+      if (rule.action === 'dim') {
+        result = { ...result, dimmed: true };
+        continue;
+      }
+
+      if (textHit) {
+        result = maskText(result, pattern);
+      }
+      if (authorHit && result.author) {
+        result = { ...result, author: result.author.replace(pattern, MASK) };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Matched message count per rule ID
+   */
+  getHits(): ReadonlyMap<string, number> {
+    return this.hits;
+  }
+}
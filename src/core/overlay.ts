@@ -2,11 +2,31 @@
  * Overlay Manager
  *
  * Creates and manages the overlay container on top of the video player.
- * Handles resizing and fullscreen changes.
+ * Handles resizing and fullscreen changes, and shows the pinned message and
+ * poll in a fixed banner area above the comment lanes.
  */
 
-import type { OverlayDimensions, OverlaySettings } from '@app-types';
-import { isVisibleElement, PLAYER_CONTAINER_SELECTORS, waitForElementMatch } from '@core/dom';
+import type { ChatBanner, OverlayDimensions, OverlaySettings } from '@app-types';
+import { isVisibleElement, waitForElementMatch } from '@core/dom';
+import { getSelectors } from '@core/selectors';
+import { borderRadius, colors, shadows, spacing } from './design-tokens.js';
+
+/**
+ * Banner layout constants
+ */
+const BANNER = {
+  /** Banner text size relative to the comment font size */
+  FONT_SCALE: 0.8,
+  /** Maximum banner width relative to the overlay width */
+  MAX_WIDTH_RATIO: 0.7,
+  /** Gap kept between the banner area and the first usable lane (px) */
+  LANE_GAP_PX: 4,
+} as const;
+
+/**
+ * Banner display order, top to bottom
+ */
+const BANNER_ORDER: readonly ChatBanner['kind'][] = ['pinned', 'poll'];
 
 export class Overlay {
   private container: HTMLDivElement | null = null;
@@ -14,6 +34,8 @@ export class Overlay {
   private resizeObserver: ResizeObserver | null = null;
   private dimensions: OverlayDimensions | null = null;
   private fullscreenHandler: (() => void) | null = null;
+  private bannerArea: HTMLDivElement | null = null;
+  private readonly banners = new Map<ChatBanner['kind'], HTMLDivElement>();
 
   /**
    * Find player container
@@ -21,7 +43,7 @@ export class Overlay {
   private async findPlayerContainer(): Promise<HTMLElement | null> {
     console.log('[YT Chat Overlay] Looking for player container...');
 
-    const match = await waitForElementMatch<HTMLElement>(PLAYER_CONTAINER_SELECTORS, {
+    const match = await waitForElementMatch<HTMLElement>(getSelectors('playerContainer'), {
       attempts: 5,
       intervalMs: 1000,
       predicate: isVisibleElement,
@@ -62,6 +84,24 @@ export class Overlay {
       contain: layout style paint;
     `;
 
+    // Banner area: fixed at the top, above scrolling comments
+    this.bannerArea = document.createElement('div');
+    this.bannerArea.className = 'yt-chat-overlay-banner-area';
+    this.bannerArea.style.cssText = `
+      position: absolute;
+      top: ${spacing.sm}px;
+      left: 50%;
+      transform: translateX(-50%);
+      max-width: ${BANNER.MAX_WIDTH_RATIO * 100}%;
+      display: flex;
+      flex-direction: column;
+      gap: ${spacing.xs}px;
+      z-index: 1;
+      font-size: ${Math.round(settings.fontSize * BANNER.FONT_SCALE)}px;
+      opacity: ${settings.opacity};
+    `;
+    this.container.appendChild(this.bannerArea);
+
     // Insert into player
     this.playerElement.style.position = 'relative';
     this.playerElement.appendChild(this.container);
@@ -119,6 +159,98 @@ export class Overlay {
     return this.dimensions;
   }
 
+  /**
+   * Show, update, or dismiss (null) a pinned message or poll banner
+   * SECURITY: Banner text is set via textContent only
+   */
+  setBanner(kind: ChatBanner['kind'], banner: ChatBanner | null): void {
+    const bannerArea = this.bannerArea;
+    if (!bannerArea) return;
+
+    this.banners.get(kind)?.remove();
+    this.banners.delete(kind);
+    if (!banner) return;
+
+    const element = this.createBannerElement(banner);
+    this.banners.set(kind, element);
+
+    // Keep pinned message above the poll regardless of arrival order
+    const next = BANNER_ORDER.slice(BANNER_ORDER.indexOf(kind) + 1)
+      .map((otherKind) => this.banners.get(otherKind))
+      .find((other) => other !== undefined);
+    bannerArea.insertBefore(element, next ?? null);
+  }
+
+  /**
+   * Remove all banners
+   */
+  clearBanners(): void {
+    for (const element of this.banners.values()) {
+      element.remove();
+    }
+    this.banners.clear();
+  }
+
+  /**
+   * Bottom edge of the banner area in overlay pixels (0 when no banner is shown)
+   * Comment lanes above this line are skipped so banners never cover comments.
+   */
+  getBannerBottom(): number {
+    if (!this.bannerArea || this.banners.size === 0) return 0;
+    return this.bannerArea.offsetTop + this.bannerArea.offsetHeight + BANNER.LANE_GAP_PX;
+  }
+
+  private createBannerElement(banner: ChatBanner): HTMLDivElement {
+    const element = document.createElement('div');
+    element.className = `yt-chat-overlay-banner yt-chat-overlay-banner-${banner.kind}`;
+    const accent = banner.kind === 'pinned' ? colors.author.moderator : colors.ui.primary;
+    element.style.cssText = `
+      padding: ${spacing.sm}px ${spacing.md}px;
+      border-radius: ${borderRadius.md};
+      border-left: 4px solid ${accent};
+      background: rgba(0, 0, 0, 0.65);
+      box-shadow: ${shadows.box.sm};
+      color: ${colors.ui.text};
+      text-shadow: ${shadows.text.sm};
+      line-height: 1.35;
+      overflow-wrap: anywhere;
+    `;
+
+    const headerText = [banner.header, banner.kind === 'pinned' ? banner.author : undefined]
+      .filter(Boolean)
+      .join(' · ');
+    if (headerText) {
+      const header = document.createElement('div');
+      header.style.cssText = `font-size: 0.8em; color: ${colors.ui.textMuted};`;
+      header.textContent = headerText;
+      element.appendChild(header);
+    }
+
+    const text = document.createElement('div');
+    text.style.fontWeight = banner.kind === 'poll' ? '700' : '400';
+    text.textContent = banner.text;
+    element.appendChild(text);
+
+    for (const choice of banner.choices ?? []) {
+      const choiceElement = document.createElement('div');
+      choiceElement.style.cssText = 'display: flex; justify-content: space-between; gap: 1em;';
+
+      const label = document.createElement('span');
+      label.textContent = `• ${choice.text}`;
+      choiceElement.appendChild(label);
+
+      if (choice.percentage) {
+        const percentage = document.createElement('span');
+        percentage.style.color = colors.ui.textMuted;
+        percentage.textContent = choice.percentage;
+        choiceElement.appendChild(percentage);
+      }
+      element.appendChild(choiceElement);
+    }
+
+    return element;
+  }
+
   /**
    * Get overlay container
    */
@@ -146,6 +278,8 @@ export class Overlay {
     this.container?.remove();
 
     // Clear references
+    this.banners.clear();
+    this.bannerArea = null;
     this.container = null;
     this.playerElement = null;
     this.dimensions = null;
@@ -109,6 +109,19 @@ export class PageWatcher {
     return url.includes('/watch') || url.includes('/live/');
   }
 
+  /**
+   * Get the video ID of the current watch/live page
+   */
+  getVideoId(): string | null {
+    const url = new URL(this.currentUrl);
+    const fromQuery = url.searchParams.get('v');
+    if (fromQuery) return fromQuery;
+
+    // /live/<videoId>
+    const liveMatch = url.pathname.match(/^\/live\/([\w-]{6,})/);
+    return liveMatch?.[1] ?? null;
+  }
+
   /**
    * Destroy and cleanup all resources
    */
@@ -0,0 +1,386 @@
+/**
+ * Popout Bridge
+ *
+ * Forwards chat from a popout chat window (live_chat?is_popout=1) to the watch
+ * page over a same-origin BroadcastChannel keyed by video ID, so the overlay
+ * keeps working when chat lives on another monitor. Messages never leave the
+ * browser.
+ *
+ * Protocol (all posts carry the video ID in the channel name):
+ *   watch page → popout: { type: 'ping' }
+ *   popout → watch page: { type: 'hello', replay }   on start and in reply to ping
+ *   popout → watch page: { type: 'message', message }
+ *   popout → watch page: { type: 'retract', id }     message deleted or retracted
+ *   popout → watch page: { type: 'banner', kind, banner }   pinned message / poll (null = dismissed)
+ *   popout → watch page: { type: 'bye' }             when the popout closes
+ */
+
+import type { ChatBanner, ChatMessage } from '@app-types';
+import type {
+  BannerCallback,
+  MessageCallback,
+  MessageSource,
+  RetractCallback,
+} from '@core/message-source';
+
+const CHANNEL_PREFIX = 'yt-chat-overlay:popout:';
+
+/**
+ * Configuration constants
+ */
+const CONFIG = {
+  /** How long the watch page waits for a popout to answer a ping (ms) */
+  PROBE_TIMEOUT_MS: 500,
+  /** Source counts as active for this long after the last message (ms) */
+  ACTIVE_WINDOW_MS: 30000,
+} as const;
+
+type BridgeMessage =
+  | { type: 'ping' }
+  | { type: 'hello'; replay: boolean }
+  | { type: 'message'; message: ChatMessage }
+  | { type: 'retract'; id: string }
+  | { type: 'banner'; kind: ChatBanner['kind']; banner: ChatBanner | null }
+  | { type: 'bye' };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean'): boolean =>
+  value === undefined || typeof value === type;
+
+const MESSAGE_KINDS: readonly unknown[] = ['text', 'superchat', 'sticker', 'membership'];
+const AUTHOR_TYPES: readonly unknown[] = ['normal', 'member', 'moderator', 'owner', 'verified'];
+const SUPER_CHAT_TIERS: readonly unknown[] = [
+  'blue',
+  'cyan',
+  'green',
+  'yellow',
+  'orange',
+  'magenta',
+  'red',
+];
+const BANNER_KINDS: readonly unknown[] = ['pinned', 'poll'];
+
+const isContentSegment = (value: unknown): boolean => {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'text':
+      return typeof value.content === 'string';
+    case 'link':
+      return typeof value.content === 'string' && typeof value.url === 'string';
+    case 'mention':
+      return typeof value.content === 'string' && isOptional(value.channelId, 'string');
+    case 'emoji':
+      return (
+        isRecord(value.emoji) &&
+        typeof value.emoji.url === 'string' &&
+        typeof value.emoji.alt === 'string'
+      );
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check the fields the renderer and filters read without guarding
+ */
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) &&
+  typeof value.text === 'string' &&
+  MESSAGE_KINDS.includes(value.kind) &&
+  typeof value.timestamp === 'number' &&
+  (value.content === undefined ||
+    (Array.isArray(value.content) && value.content.every(isContentSegment))) &&
+  (value.authorType === undefined || AUTHOR_TYPES.includes(value.authorType)) &&
+  (value.superChat === undefined ||
+    (isRecord(value.superChat) &&
+      typeof value.superChat.amount === 'string' &&
+      SUPER_CHAT_TIERS.includes(value.superChat.tier))) &&
+  (value.membership === undefined || isRecord(value.membership)) &&
+  (value.authorBadges === undefined ||
+    (Array.isArray(value.authorBadges) && value.authorBadges.every(isRecord))) &&
+  ['id', 'author', 'authorChannelId', 'authorPhotoUrl', 'color'].every((key) =>
+    isOptional(value[key], 'string')
+  ) &&
+  isOptional(value.videoOffsetMs, 'number') &&
+  isOptional(value.memberMonths, 'number');
+
+const isChatBanner = (value: unknown, kind: unknown): value is ChatBanner =>
+  isRecord(value) &&
+  value.kind === kind &&
+  typeof value.text === 'string' &&
+  isOptional(value.header, 'string') &&
+  isOptional(value.author, 'string') &&
+  (value.choices === undefined ||
+    (Array.isArray(value.choices) &&
+      value.choices.every((choice) => isRecord(choice) && typeof choice.text === 'string')));
+
+/**
+ * Check a channel post, payload included: any script on a YouTube page can
+ * post to the channel, so malformed payloads are dropped here rather than
+ * reaching the renderer
+ */
+const isBridgeMessage = (data: unknown): data is BridgeMessage => {
+  if (!isRecord(data)) return false;
+  switch (data.type) {
+    case 'ping':
+    case 'bye':
+      return true;
+    case 'hello':
+      return typeof data.replay === 'boolean';
+    case 'message':
+      return isChatMessage(data.message);
+    case 'retract':
+      return typeof data.id === 'string';
+    case 'banner':
+      return (
+        BANNER_KINDS.includes(data.kind) &&
+        (data.banner === null || isChatBanner(data.banner, data.kind))
+      );
+    default:
+      return false;
+  }
+};
+
+const openChannel = (videoId: string): BroadcastChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') {
+    console.warn('[PopoutBridge] BroadcastChannel is not supported');
+    return null;
+  }
+  return new BroadcastChannel(`${CHANNEL_PREFIX}${videoId}`);
+};
+
+/**
+ * Check if this window is a popout chat window
+ */
+export const isPopoutChatPage = (): boolean =>
+  /^\/live_chat(_replay)?\/?$/.test(location.pathname) &&
+  new URLSearchParams(location.search).get('is_popout') === '1';
+
+/**
+ * Popout side: publishes messages from a chat source running in the popout
+ */
+export class PopoutPublisher {
+  private channel: BroadcastChannel | null = null;
+  /** Current banners, re-sent to watch pages that connect later */
+  private readonly banners = new Map<ChatBanner['kind'], ChatBanner>();
+  private readonly handlePageHide = () => {
+    this.stop();
+  };
+
+  constructor(
+    private readonly videoId: string,
+    private readonly source: MessageSource
+  ) {}
+
+  /**
+   * Start reading popout chat and forwarding it to the watch page
+   */
+  async start(): Promise<boolean> {
+    this.channel = openChannel(this.videoId);
+    if (!this.channel) return false;
+
+    this.channel.onmessage = (event: MessageEvent<unknown>) => {
+      if (isBridgeMessage(event.data) && event.data.type === 'ping') {
+        this.announce();
+      }
+    };
+    window.addEventListener('pagehide', this.handlePageHide);
+
+    const started = await this.source.start(
+      (message) => {
+        this.post({ type: 'message', message });
+      },
+      (id) => {
+        this.post({ type: 'retract', id });
+      },
+      (kind, banner) => {
+        if (banner) {
+          this.banners.set(kind, banner);
+        } else {
+          this.banners.delete(kind);
+        }
+        this.post({ type: 'banner', kind, banner });
+      }
+    );
+    if (!started) {
+      console.warn('[PopoutBridge] Popout chat not found, nothing to forward');
+      this.stop();
+      return false;
+    }
+
+    this.announce();
+    console.log(`[PopoutBridge] Forwarding popout chat for video ${this.videoId}`);
+    return true;
+  }
+
+  private announce(): void {
+    this.post({ type: 'hello', replay: this.source.isReplay() });
+    for (const [kind, banner] of this.banners) {
+      this.post({ type: 'banner', kind, banner });
+    }
+  }
+
+  private post(message: BridgeMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('[PopoutBridge] Failed to forward message:', error);
+    }
+  }
+
+  /**
+   * Stop forwarding and tell the watch page
+   */
+  stop(): void {
+    window.removeEventListener('pagehide', this.handlePageHide);
+    this.source.stop();
+    this.banners.clear();
+    if (this.channel) {
+      this.post({ type: 'bye' });
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+}
+
+/**
+ * Watch page side: MessageSource fed by a popout chat window
+ */
+export class PopoutChatSource implements MessageSource {
+  private channel: BroadcastChannel | null = null;
+  private callback: MessageCallback | null = null;
+  private retractCallback: RetractCallback | null = null;
+  private bannerCallback: BannerCallback | null = null;
+  private replayMode = false;
+  private lastMessageTime = 0;
+
+  /**
+   * @param onClosed called when the popout window goes away
+   */
+  constructor(
+    private readonly videoId: string,
+    private readonly onClosed: () => void
+  ) {}
+
+  /**
+   * Probe for a popout window for this video
+   * @returns false if no popout answered
+   */
+  async start(
+    callback: MessageCallback,
+    onRetract?: RetractCallback,
+    onBanner?: BannerCallback
+  ): Promise<boolean> {
+    this.stop();
+    const channel = openChannel(this.videoId);
+    if (!channel) return false;
+    this.channel = channel;
+
+    const answered = await new Promise<boolean>((resolve) => {
+      const timer = window.setTimeout(() => resolve(false), CONFIG.PROBE_TIMEOUT_MS);
+      channel.onmessage = (event: MessageEvent<unknown>) => {
+        if (isBridgeMessage(event.data) && event.data.type === 'hello') {
+          window.clearTimeout(timer);
+          this.replayMode = event.data.replay;
+          resolve(true);
+        }
+      };
+      channel.postMessage({ type: 'ping' } satisfies BridgeMessage);
+    });
+
+    if (!answered || this.channel !== channel) {
+      this.stop();
+      return false;
+    }
+
+    this.callback = callback;
+    this.retractCallback = onRetract ?? null;
+    this.bannerCallback = onBanner ?? null;
+    channel.onmessage = (event: MessageEvent<unknown>) => {
+      this.handleMessage(event.data);
+    };
+    console.log(`[PopoutBridge] Using popout chat for video ${this.videoId}`);
+    return true;
+  }
+
+  private handleMessage(data: unknown): void {
+    if (!isBridgeMessage(data)) return;
+
+    if (data.type === 'message') {
+      this.lastMessageTime = Date.now();
+      this.callback?.(data.message);
+      return;
+    }
+
+    if (data.type === 'retract') {
+      this.retractCallback?.(data.id);
+      return;
+    }
+
+    if (data.type === 'banner') {
+      this.bannerCallback?.(data.kind, data.banner);
+      return;
+    }
+
+    if (data.type === 'hello') {
+      this.replayMode = data.replay;
+      return;
+    }
+
+    if (data.type === 'bye') {
+      console.log('[PopoutBridge] Popout chat closed');
+      this.stop();
+      this.onClosed();
+    }
+  }
+
+  /**
+   * Stop listening to the popout
+   */
+  stop(): void {
+    if (this.channel) {
+      this.channel.onmessage = null;
+      this.channel.close();
+      this.channel = null;
+    }
+    this.callback = null;
+    this.retractCallback = null;
+    this.bannerCallback = null;
+    this.replayMode = false;
+  }
+
+  /**
+   * Check if the popout is showing a chat replay (VOD)
+   */
+  isReplay(): boolean {
+    return this.replayMode;
+  }
+
+  /**
+   * Check if popout messages arrived recently
+   */
+  isActive(): boolean {
+    return Date.now() - this.lastMessageTime < CONFIG.ACTIVE_WINDOW_MS;
+  }
+}
+
+/**
+ * Watch page side: notify when a popout for this video starts
+ * @returns function that stops watching
+ */
+export const watchForPopout = (videoId: string, onOpened: () => void): (() => void) => {
+  const channel = openChannel(videoId);
+  if (!channel) return () => {};
+
+  channel.onmessage = (event: MessageEvent<unknown>) => {
+    if (isBridgeMessage(event.data) && event.data.type === 'hello') {
+      onOpened();
+    }
+  };
+  return () => {
+    channel.onmessage = null;
+    channel.close();
+  };
+};
@@ -6,17 +6,23 @@
  */
 
 import type {
+  AuthorBadge,
+  AuthorRef,
   ChatMessage,
   ContentSegment,
+  DensityTuning,
   EmojiInfo,
   LaneState,
+  MembershipInfo,
   OutlineSettings,
   OverlayDimensions,
   OverlaySettings,
   SuperChatInfo,
 } from '@app-types';
+import { isListedAuthor } from '@core/author-lists';
+import { getDuplicateKey, normalizeMentionName, truncateChatMessage } from '@core/chat-text';
 import { isAllowedYouTubeImageUrl } from '@core/image-url';
-import { borderRadius, colors, rgba, shadows, spacing, typography } from './design-tokens.js';
+import { borderRadius, colors, shadows, spacing, typography } from './design-tokens.js';
 import type { Overlay } from './overlay';
 
 interface ActiveMessage {
@@ -25,12 +31,79 @@ interface ActiveMessage {
   laneSpan: number;
   startTime: number;
   duration: number;
+  delay: number;
+  offsetY: number;
+  distance: number;
   animation: Animation;
+  /** Chat item ID of the rendered message (for retraction) */
+  messageId?: string;
+  /** Rendered message (comment interaction, author muting) */
+  message?: ChatMessage;
+  /** Duplicate key of the collapse group this comment shows */
+  collapseKey?: string;
+  /** ×N counter element, once the comment has repeats */
+  repeatBadge?: HTMLSpanElement;
 }
 
+/**
+ * Geometry and timing of a rendered message (for session export)
+ */
+export interface RenderedMessageInfo {
+  message: ChatMessage;
+  /** Lane index (top lane of the block) */
+  lane: number;
+  /** Vertical position relative to the overlay (px) */
+  offsetY: number;
+  /** Rendered element width (px) */
+  width: number;
+  /** Horizontal travel distance (px) */
+  distance: number;
+  /** Animation duration at 1x playback (ms) */
+  duration: number;
+  /** Staggered lane delay before movement starts (ms) */
+  delay: number;
+  /** Resolved text color (CSS color) */
+  color: string;
+  /** Overlay size at render time */
+  overlayWidth: number;
+  overlayHeight: number;
+}
+
+export type RenderListener = (info: RenderedMessageInfo) => void;
+
+/**
+ * @param hoverTarget comment element when opened by hover (the menu closes when
+ *   the pointer leaves it), null for clicks
+ */
+export type CommentClickHandler = (
+  message: ChatMessage,
+  event: MouseEvent,
+  hoverTarget: HTMLElement | null
+) => void;
+
 interface QueuedMessage {
   message: ChatMessage;
   nextAttemptAt: number;
+  /** When the message entered the queue (shifted by pauses) */
+  enqueuedAt: number;
+  /** Paid or privileged: skips the rate budget and never expires */
+  priority: boolean;
+  /** Duplicate key, when repeats of this message are collapsed into it */
+  collapseKey?: string;
+}
+
+/**
+ * Repeats of one message within the collapse window
+ */
+interface CollapseGroup {
+  /** Messages merged so far, including the first */
+  count: number;
+  /** Arrival of the latest repeat (the window slides with each repeat) */
+  lastSeenAt: number;
+  /** First message while it waits in the queue */
+  queued: QueuedMessage | null;
+  /** Comment on screen once rendered */
+  active: ActiveMessage | null;
 }
 
 type RenderResult =
@@ -57,6 +130,7 @@ const LAYOUT = {
   // Author display
   AUTHOR_PHOTO_SIZE: 24, // px
   AUTHOR_FONT_SCALE: 0.85, // relative to base fontSize
+  AUTHOR_BADGE_SIZE: 16, // px
 
   // Emoji sizing
   EMOJI_SIZE_STANDARD: 1.2, // relative to base fontSize
@@ -64,6 +138,19 @@ const LAYOUT = {
 
   // Super Chat
   SUPERCHAT_STICKER_SIZE: 2.0, // relative to base fontSize
+  STICKER_CARD_SIZE: 3.0, // Super Sticker image, relative to base fontSize
+
+  // Long text
+  WRAP_WIDTH_RATIO: 0.6, // max width of wrapped long messages, relative to overlay width
+
+  // Duplicate collapsing
+  REPEAT_BADGE_SCALE: 0.8, // ×N counter, relative to base fontSize
+
+  // Mute filter
+  DIMMED_OPACITY_SCALE: 0.35, // dimmed messages, relative to the opacity setting
+
+  // Comment menu
+  HOVER_OPEN_DELAY_MS: 400, // pointer rest on a comment before the hover menu opens
 
   // Animation
   EXIT_PADDING_MIN: 100, // px
@@ -90,16 +177,35 @@ const LAYOUT = {
   RETRY_DELAY_MIN_MS: 16, // ms
   RETRY_DELAY_MAX_MS: 800, // ms
   QUEUE_LOOKAHEAD_LIMIT: 20, // queue scan window for scheduling (increased from 14)
+  RETRACT_FADE_MS: 200, // fade-out duration for deleted/retracted messages
 } as const;
 
+/**
+ * Glyphs for built-in badge roles (YouTube draws these as SVG icons)
+ */
+const AUTHOR_BADGE_GLYPHS: Partial<Record<AuthorBadge['type'], string>> = {
+  owner: '★',
+  moderator: '🔧',
+  verified: '✔',
+};
+
 export class Renderer {
   private overlay: Overlay;
   private settings: OverlaySettings;
   private lanes: LaneState[] = [];
+  /** Comment each lane's timing was last measured from (by lane index) */
+  private laneItems: (ActiveMessage | null)[] = [];
   private activeMessages: Set<ActiveMessage> = new Set();
   private messageQueue: QueuedMessage[] = [];
-  private lastProcessTime = 0;
-  private processedInLastSecond = 0;
+  /** Recent comments by duplicate key (queued or on screen) */
+  private readonly collapseGroups = new Map<string, CollapseGroup>();
+  /** Token bucket for regular chat (refills at maxMessagesPerSecond) */
+  private rateTokens = 0;
+  private lastRefillAt = 0;
+  /** Auto density overrides (null: manual settings apply) */
+  private densityTuning: DensityTuning | null = null;
+  /** Sampling budget for regular chat under auto density */
+  private sampleCredit = 0;
   private isPaused = false;
   private pausedAt: number | null = null;
   private playbackRate = 1;
@@ -107,12 +213,65 @@ export class Renderer {
   private readonly WARNING_INTERVAL_MS = 10000;
   private styleElement: HTMLStyleElement | null = null;
   private retryTimer: number | null = null;
+  private renderListener: RenderListener | null = null;
+  private commentClickHandler: CommentClickHandler | null = null;
+  /** Container the comment click listeners are attached to */
+  private clickTarget: HTMLDivElement | null = null;
+  /** Comment under the pointer while the hover trigger is pending or open */
+  private hoverElement: HTMLElement | null = null;
+  private hoverTimer: number | null = null;
+  /** Normalized names/handles whose @mentions are highlighted (channel owner, viewer) */
+  private mentionTargets = new Set<string>();
+
+  private readonly handleCommentClick = (event: MouseEvent) => {
+    const active = this.findCommentTarget(event);
+    if (!active?.message) return;
+
+    // Keep the click away from the player underneath (play/pause)
+    event.preventDefault();
+    event.stopPropagation();
+    this.clearHoverTimer();
+    this.commentClickHandler?.(active.message, event, null);
+  };
+
+  private readonly handleCommentHover = (event: MouseEvent) => {
+    if (this.settings.commentMenuTrigger !== 'hover') return;
+    const active = this.findCommentTarget(event);
+    if (!active?.message || active.element === this.hoverElement) return;
+
+    // Short rest before opening, so crossing comments does not pop menus up
+    this.clearHoverTimer();
+    this.hoverElement = active.element;
+    const { message, element } = active;
+    this.hoverTimer = window.setTimeout(() => {
+      this.hoverTimer = null;
+      if (element.isConnected) {
+        this.commentClickHandler?.(message, event, element);
+      }
+    }, LAYOUT.HOVER_OPEN_DELAY_MS);
+  };
+
+  private readonly handleCommentHoverEnd = (event: MouseEvent) => {
+    const element = this.hoverElement;
+    if (!element || !(event.target instanceof Node) || !element.contains(event.target)) return;
+    if (event.relatedTarget instanceof Node && element.contains(event.relatedTarget)) return;
+    this.clearHoverTimer();
+    this.hoverElement = null;
+  };
+
+  private readonly handleCommentDoubleClick = (event: MouseEvent) => {
+    // Double-clicking the player toggles fullscreen
+    if (this.findCommentTarget(event)) {
+      event.stopPropagation();
+    }
+  };
 
   constructor(overlay: Overlay, settings: OverlaySettings) {
     this.overlay = overlay;
     this.settings = settings;
     this.initLanes();
     this.injectStyles();
+    this.attachCommentInteraction();
   }
 
   /**
@@ -128,7 +287,9 @@ export class Renderer {
       lastItemStartTime: 0,
       lastItemWidthPx: 0,
       lastItemHeightPx: 0,
+      lastItemSpeedPxPerSec: 0,
     }));
+    this.laneItems = this.lanes.map(() => null);
   }
 
   /**
@@ -196,6 +357,19 @@ export class Renderer {
         font-weight: ${typography.fontWeight.semibold};
       }
 
+      /* Author badges (custom member badge image or role glyph) */
+      .yt-chat-overlay-author-badge {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        flex-shrink: 0;
+        min-width: ${LAYOUT.AUTHOR_BADGE_SIZE}px;
+        height: ${LAYOUT.AUTHOR_BADGE_SIZE}px;
+        font-size: ${LAYOUT.AUTHOR_BADGE_SIZE * 0.75}px;
+        line-height: 1;
+        filter: ${shadows.filter.md};
+      }
+
       /* Message content line */
       .yt-chat-overlay-message-content {
         display: block;
@@ -284,6 +458,22 @@ export class Renderer {
         margin-bottom: ${spacing.xs}px;
       }
 
+      /* Super Sticker card body (image instead of message text) */
+      .yt-chat-overlay-sticker-body {
+        display: flex;
+        justify-content: center;
+        padding: ${spacing.sm}px ${spacing.md}px ${spacing.md}px;
+      }
+
+      .yt-chat-overlay-sticker-card .yt-chat-overlay-superchat-meta {
+        border-bottom: none;
+      }
+
+      .yt-chat-overlay-sticker-image {
+        display: block;
+        filter: ${shadows.filter.md};
+      }
+
       /* Enhanced regular message with author */
       .yt-chat-overlay-message-with-author:not(.yt-chat-overlay-superchat-card) {
         background: rgba(0, 0, 0, 0.25);
@@ -332,18 +522,43 @@ export class Renderer {
 
       /* === MEMBERSHIP MESSAGE CARDS === */
 
-      /* Membership card container */
+      /* Membership card container (accent set per event type via --yt-member-rgb) */
       .yt-chat-overlay-membership-card {
         display: flex;
         flex-direction: column;
         padding: ${spacing.md}px ${spacing.lg}px;
         border-radius: ${borderRadius.md};
-        background: ${rgba(colors.superChat.green, 0.25)};
-        border: 2px solid ${rgba(colors.superChat.green, 0.5)};
+        background: rgba(var(--yt-member-rgb), 0.25);
+        border: 2px solid rgba(var(--yt-member-rgb), 0.5);
         box-shadow: ${shadows.box.md};
         backdrop-filter: blur(4px);
       }
 
+      /* Gift purchases stand out like Super Chats */
+      .yt-chat-overlay-membership-gift {
+        border-width: 3px;
+        box-shadow: ${shadows.box.md}, 0 0 12px rgba(var(--yt-member-rgb), 0.6);
+      }
+
+      /* Redemptions are compact, one per gift recipient */
+      .yt-chat-overlay-membership-redemption {
+        padding: ${spacing.xs}px ${spacing.md}px;
+        border-width: 1px;
+      }
+
+      /* Event label (New member / N months / Gifted xN / Gift received) */
+      .yt-chat-overlay-membership-label {
+        align-self: flex-start;
+        padding: 0 ${spacing.sm}px;
+        border-radius: ${borderRadius.lg};
+        font-size: ${typography.fontSize.xs};
+        font-weight: ${typography.fontWeight.bold};
+        letter-spacing: 0.3px;
+        color: ${colors.ui.text};
+        background: rgba(var(--yt-member-rgb), 0.7);
+        text-shadow: ${shadows.text.sm};
+      }
+
       /* Membership author section */
       .yt-chat-overlay-membership-author {
         display: flex;
@@ -372,6 +587,69 @@ export class Renderer {
         color: ${colors.ui.text};
         text-shadow: ${shadows.text.sm};
       }
+
+      /* Links and @mentions inside messages */
+      .yt-chat-overlay-link {
+        color: ${colors.richText.link};
+        text-decoration: underline;
+      }
+
+      .yt-chat-overlay-mention {
+        font-weight: ${typography.fontWeight.bold};
+      }
+
+      /* @mention of the channel owner or the viewer */
+      .yt-chat-overlay-mention-highlight {
+        padding: 0 ${spacing.xs}px;
+        border-radius: ${borderRadius.sm};
+        background: rgba(${colors.richText.mentionHighlight.r}, ${colors.richText.mentionHighlight.g}, ${colors.richText.mentionHighlight.b}, 0.35);
+        box-shadow: 0 0 0 1px rgba(${colors.richText.mentionHighlight.r}, ${colors.richText.mentionHighlight.g}, ${colors.richText.mentionHighlight.b}, 0.6);
+      }
+
+      /* Comments by a highlighted author (border color set per message) */
+      .yt-chat-overlay-highlighted-author {
+        border: 2px solid;
+        border-radius: ${borderRadius.sm};
+        padding: 0 ${spacing.xs}px;
+      }
+
+      /* ×N counter of collapsed repeats */
+      .yt-chat-overlay-repeat-badge {
+        display: inline-block;
+        margin-left: ${spacing.sm}px;
+        padding: 0 ${spacing.xs}px;
+        border-radius: ${borderRadius.sm};
+        background: rgba(0, 0, 0, 0.45);
+        font-size: ${LAYOUT.REPEAT_BADGE_SCALE}em;
+        font-variant-numeric: tabular-nums;
+        vertical-align: middle;
+      }
+
+      /* Clickable comments (comment interaction enabled) */
+      .yt-chat-overlay-interactive .yt-chat-overlay-message {
+        pointer-events: auto;
+        cursor: pointer;
+      }
+
+      /* === LONG TEXT (over the length limit) === */
+
+      /* Wrapped into a multi-line block (max width set per overlay size) */
+      .yt-chat-overlay-long-wrap,
+      .yt-chat-overlay-long-wrap .yt-chat-overlay-message-content,
+      .yt-chat-overlay-long-wrap .yt-chat-overlay-membership-message {
+        white-space: normal;
+        overflow-wrap: anywhere;
+      }
+
+      /* Kept on a single line, including Super Chat card bodies */
+      .yt-chat-overlay-long-full .yt-chat-overlay-message-content,
+      .yt-chat-overlay-long-full .yt-chat-overlay-membership-message {
+        white-space: nowrap;
+      }
+
+      .yt-chat-overlay-long-full.yt-chat-overlay-superchat-card {
+        max-width: none;
+      }
     `;
   }
 
@@ -583,7 +861,40 @@ export class Renderer {
   }
 
   /**
-   * Render mixed content (text + emoji) using DOM API
+   * Create Super Sticker card body with the sticker image
+   * SECURITY: Validates URL and creates element programmatically
+   */
+  private createStickerContent(superChat: SuperChatInfo): HTMLDivElement | null {
+    if (!superChat.stickerUrl) return null;
+
+    const stickerSize = this.settings.fontSize * LAYOUT.STICKER_CARD_SIZE;
+    const stickerImg = this.createImageElement(
+      superChat.stickerUrl,
+      superChat.stickerLabel || 'Super Sticker',
+      'yt-chat-overlay-sticker-image',
+      stickerSize
+    );
+    if (!stickerImg) return null;
+
+    const content = document.createElement('div');
+    content.className = 'yt-chat-overlay-sticker-body';
+    content.appendChild(stickerImg);
+    return content;
+  }
+
+  /**
+   * Create a styled inline text element for links and @mentions
+   * SECURITY: Text is set via textContent; links are not clickable (no href)
+   */
+  private createInlineTextElement(text: string, className: string): HTMLSpanElement {
+    const span = document.createElement('span');
+    span.className = className;
+    span.textContent = text;
+    return span;
+  }
+
+  /**
+   * Render mixed content (text, emoji, links, @mentions) using DOM API
    * SECURITY: No innerHTML - creates elements programmatically
    */
   private renderMixedContent(container: HTMLDivElement, segments: ContentSegment[]): void {
@@ -592,6 +903,16 @@ export class Renderer {
         // Create text node (safe)
         const textNode = document.createTextNode(segment.content);
         container.appendChild(textNode);
+      } else if (segment.type === 'link') {
+        container.appendChild(
+          this.createInlineTextElement(segment.content, 'yt-chat-overlay-link')
+        );
+      } else if (segment.type === 'mention') {
+        const mention = this.createInlineTextElement(segment.content, 'yt-chat-overlay-mention');
+        if (this.mentionTargets.has(normalizeMentionName(segment.content))) {
+          mention.classList.add('yt-chat-overlay-mention-highlight');
+        }
+        container.appendChild(mention);
       } else if (segment.type === 'emoji') {
         // Create img element programmatically (safe)
         const img = this.createEmojiElement(segment.emoji);
@@ -612,7 +933,32 @@ export class Renderer {
   }
 
   /**
-   * Create author info element (photo + name)
+   * Create an author badge icon: the custom image, or a glyph for built-in roles
+   * SECURITY: Validates image URL and creates elements programmatically
+   */
+  private createAuthorBadgeElement(badge: AuthorBadge): HTMLElement | null {
+    const label = badge.label || badge.type;
+    if (badge.imageUrl) {
+      return this.createImageElement(
+        badge.imageUrl,
+        label,
+        'yt-chat-overlay-author-badge',
+        LAYOUT.AUTHOR_BADGE_SIZE
+      );
+    }
+
+    const glyph = AUTHOR_BADGE_GLYPHS[badge.type];
+    if (!glyph) return null;
+
+    const span = document.createElement('span');
+    span.className = 'yt-chat-overlay-author-badge';
+    span.textContent = glyph;
+    span.setAttribute('aria-label', label);
+    return span;
+  }
+
+  /**
+   * Create author info element (photo + name + optional badges)
    * SECURITY: Validates photo URL and creates elements programmatically
    */
   private createAuthorElement(message: ChatMessage): HTMLDivElement {
@@ -641,6 +987,15 @@ export class Renderer {
       authorInfoDiv.appendChild(nameSpan);
     }
 
+    if (this.settings.showAuthorBadges) {
+      for (const badge of message.authorBadges ?? []) {
+        const badgeElement = this.createAuthorBadgeElement(badge);
+        if (badgeElement) {
+          authorInfoDiv.appendChild(badgeElement);
+        }
+      }
+    }
+
     return authorInfoDiv;
   }
 
@@ -729,12 +1084,33 @@ export class Renderer {
     return content;
   }
 
+  /**
+   * Label shown on a membership card for its event type
+   */
+  private getMembershipLabel(membership: MembershipInfo): string {
+    switch (membership.type) {
+      case 'milestone':
+        return membership.months ? `${membership.months} months` : 'Milestone';
+      case 'gift':
+        return membership.giftCount ? `Gifted ×${membership.giftCount}` : 'Gifted memberships';
+      case 'redemption':
+        return 'Gift received';
+      case 'new':
+        return 'New member';
+    }
+  }
+
   /**
    * Create membership message card with author and message
+   * Each event type (new, milestone, gift, redemption) gets its own accent and label.
    */
   private createMembershipCard(message: ChatMessage): HTMLDivElement {
+    const membership = message.membership ?? { type: 'new' };
+    const accent = colors.membership[membership.type];
+
     const card = document.createElement('div');
-    card.className = 'yt-chat-overlay-membership-card';
+    card.className = `yt-chat-overlay-membership-card yt-chat-overlay-membership-${membership.type}`;
+    card.style.setProperty('--yt-member-rgb', `${accent.r}, ${accent.g}, ${accent.b}`);
 
     // Author section with photo
     const authorSection = document.createElement('div');
@@ -757,6 +1133,12 @@ export class Renderer {
       textContainer.appendChild(authorName);
     }
 
+    // Event label
+    const label = document.createElement('span');
+    label.className = 'yt-chat-overlay-membership-label';
+    label.textContent = this.getMembershipLabel(membership);
+    textContainer.appendChild(label);
+
     // Membership message
     const membershipText = this.createMessageTextElement(
       message,
@@ -842,6 +1224,17 @@ export class Renderer {
     const now = Date.now();
     const startTime = now + laneDelay;
     const exitTime = now + totalDuration;
+    const activeMessage: ActiveMessage = {
+      element,
+      lane: lane.index,
+      laneSpan,
+      startTime: now,
+      duration,
+      delay: laneDelay,
+      offsetY: laneY,
+      distance,
+      animation,
+    };
 
     for (let i = lane.index; i < lane.index + laneSpan && i < this.lanes.length; i++) {
       const laneState = this.lanes[i];
@@ -851,6 +1244,8 @@ export class Renderer {
       laneState.lastItemExitTime = exitTime;
       laneState.lastItemWidthPx = textWidth;
       laneState.lastItemHeightPx = messageHeight;
+      laneState.lastItemSpeedPxPerSec = effectiveSpeedPxPerSec;
+      this.laneItems[i] = activeMessage;
     }
 
     // Auto-remove on animation end
@@ -862,36 +1257,48 @@ export class Renderer {
       { once: true }
     );
 
-    return {
-      element,
-      lane: lane.index,
-      laneSpan,
-      startTime: now,
-      duration,
-      animation,
-    };
+    return activeMessage;
   }
 
   /**
    * Add message to render queue
    */
   addMessage(message: ChatMessage): void {
-    // Rate limiting check
     const now = Date.now();
-    if (now - this.lastProcessTime > 1000) {
-      this.processedInLastSecond = 0;
-      this.lastProcessTime = now;
+
+    // Repeats of a recent comment only bump its counter (not rate limited)
+    const collapseKey = this.getCollapseKey(message);
+    if (collapseKey && this.mergeDuplicate(collapseKey, now)) {
+      return;
     }
 
-    if (this.processedInLastSecond >= this.settings.maxMessagesPerSecond) {
-      // Drop message
+    const priority = this.isPriorityMessage(message);
+    if (!priority && !this.sampleRegularMessage()) {
       return;
     }
 
-    this.messageQueue.push({
+    const queued: QueuedMessage = {
       message,
       nextAttemptAt: 0,
-    });
+      enqueuedAt: now,
+      priority,
+    };
+    if (collapseKey) {
+      queued.collapseKey = collapseKey;
+      this.collapseGroups.set(collapseKey, { count: 1, lastSeenAt: now, queued, active: null });
+    }
+
+    if (queued.priority) {
+      // Ahead of regular chat, behind earlier priority messages
+      const firstRegular = this.messageQueue.findIndex((item) => !item.priority);
+      this.messageQueue.splice(
+        firstRegular === -1 ? this.messageQueue.length : firstRegular,
+        0,
+        queued
+      );
+    } else {
+      this.messageQueue.push(queued);
+    }
 
     // Only process queue if not paused
     if (!this.isPaused) {
@@ -912,10 +1319,12 @@ export class Renderer {
     this.clearRetryTimer();
 
     let shortestWaitMs: number | null = null;
+    this.expireQueuedMessages(Date.now());
 
     while (this.messageQueue.length > 0) {
       let progressed = false;
       const now = Date.now();
+      this.refillRateTokens(now);
       const lookaheadCount = Math.min(LAYOUT.QUEUE_LOOKAHEAD_LIMIT, this.messageQueue.length);
 
       for (let i = 0; i < lookaheadCount; i++) {
@@ -928,22 +1337,44 @@ export class Renderer {
           continue;
         }
 
+        // Regular chat waits for the rate budget instead of being dropped
+        if (!queued.priority && this.rateTokens < 1) {
+          const waitMs = this.getTokenWaitMs();
+          shortestWaitMs = shortestWaitMs === null ? waitMs : Math.min(shortestWaitMs, waitMs);
+          continue;
+        }
+
+        // Auto density holds regular chat back while the screen is full
+        if (
+          !queued.priority &&
+          this.densityTuning &&
+          this.activeMessages.size >= this.densityTuning.maxConcurrentMessages
+        ) {
+          shortestWaitMs =
+            shortestWaitMs === null
+              ? LAYOUT.RETRY_DELAY_MAX_MS
+              : Math.min(shortestWaitMs, LAYOUT.RETRY_DELAY_MAX_MS);
+          continue;
+        }
+
         // Soft cap warning (non-blocking)
-        if (this.activeMessages.size >= this.settings.maxConcurrentMessages) {
+        if (this.activeMessages.size >= this.getConcurrentLimit()) {
           this.logPerformanceWarning();
         }
 
-        const result = this.renderMessage(queued.message);
+        const result = this.renderMessage(queued.message, queued.collapseKey);
 
         if (result.status === 'rendered') {
           this.messageQueue.splice(i, 1);
-          this.processedInLastSecond++;
+          // Priority messages use up budget too, so regular chat fills what is left
+          this.rateTokens = Math.max(0, this.rateTokens - 1);
           progressed = true;
           break;
         }
 
         if (result.status === 'dropped') {
           this.messageQueue.splice(i, 1);
+          this.releaseQueuedGroup(queued);
           progressed = true;
           break;
         }
@@ -964,10 +1395,174 @@ export class Renderer {
   }
 
   /**
-   * Get effective message speed considering current video playback rate
+   * Paid events and channel staff are always admitted
+   */
+  private isPriorityMessage(message: ChatMessage): boolean {
+    return (
+      message.kind !== 'text' ||
+      message.authorType === 'owner' ||
+      message.authorType === 'moderator'
+    );
+  }
+
+  /**
+   * Under auto density, pass an even share of regular chat (sampleRate) to the queue
+   */
+  private sampleRegularMessage(): boolean {
+    const sampleRate = this.densityTuning?.sampleRate ?? 1;
+    if (sampleRate >= 1) return true;
+
+    this.sampleCredit += sampleRate;
+    if (this.sampleCredit < 1) return false;
+    this.sampleCredit -= 1;
+    return true;
+  }
+
+  private getRateLimit(): number {
+    return this.densityTuning?.maxMessagesPerSecond ?? this.settings.maxMessagesPerSecond;
+  }
+
+  private getConcurrentLimit(): number {
+    return this.densityTuning?.maxConcurrentMessages ?? this.settings.maxConcurrentMessages;
+  }
+
+  /**
+   * Add rate budget for the time since the last refill (burst of up to one second)
+   */
+  private refillRateTokens(now: number): void {
+    const rate = this.getRateLimit();
+    const elapsedMs = this.lastRefillAt > 0 ? now - this.lastRefillAt : 1000;
+    this.rateTokens = Math.min(rate, this.rateTokens + (Math.max(0, elapsedMs) / 1000) * rate);
+    this.lastRefillAt = now;
+  }
+
+  /**
+   * Time until the next regular message may be admitted
+   */
+  private getTokenWaitMs(): number {
+    return Math.ceil(((1 - this.rateTokens) / this.getRateLimit()) * 1000);
+  }
+
+  /**
+   * Drop regular messages that waited longer than the queue max age:
+   * showing them now would be out of step with the chat
+   */
+  private expireQueuedMessages(now: number): void {
+    const maxAgeMs = this.settings.queueMaxAgeMs;
+    const kept: QueuedMessage[] = [];
+    const expired: QueuedMessage[] = [];
+    for (const queued of this.messageQueue) {
+      const isExpired = !queued.priority && now - queued.enqueuedAt > maxAgeMs;
+      (isExpired ? expired : kept).push(queued);
+    }
+    if (expired.length === 0) return;
+
+    this.messageQueue = kept;
+    for (const queued of expired) {
+      this.releaseQueuedGroup(queued);
+    }
+    console.log(`[Renderer] Expired ${expired.length} queued messages older than ${maxAgeMs}ms`);
+  }
+
+  /**
+   * Duplicate key of a message, if its repeats may be collapsed
+   * Paid, membership, dimmed and highlighted comments always stand alone.
+   */
+  private getCollapseKey(message: ChatMessage): string | null {
+    if (!this.settings.collapseDuplicates || message.kind !== 'text' || message.dimmed) {
+      return null;
+    }
+    if (isListedAuthor(this.settings.highlightedAuthors, message)) {
+      return null;
+    }
+    return getDuplicateKey(message);
+  }
+
+  /**
+   * Fold a repeat into the recent comment with the same key
+   * @returns false if there is no such comment queued or on screen
+   */
+  private mergeDuplicate(collapseKey: string, now: number): boolean {
+    const group = this.collapseGroups.get(collapseKey);
+    if (!group || now - group.lastSeenAt > this.settings.collapseWindowMs) {
+      return false;
+    }
+
+    const isQueued = group.queued !== null && this.messageQueue.includes(group.queued);
+    const shown = group.active && this.activeMessages.has(group.active) ? group.active : null;
+    if (!isQueued && !shown) {
+      return false;
+    }
+
+    group.count++;
+    group.lastSeenAt = now;
+    if (shown) {
+      this.updateRepeatBadge(shown, group.count);
+    }
+    return true;
+  }
+
+  private createRepeatBadge(count: number): HTMLSpanElement {
+    const badge = document.createElement('span');
+    badge.className = 'yt-chat-overlay-repeat-badge';
+    badge.textContent = `×${count}`;
+    return badge;
+  }
+
+  /**
+   * Show the current repeat count on a comment that is already flowing
+   */
+  private updateRepeatBadge(active: ActiveMessage, count: number): void {
+    const previousWidth = active.element.offsetWidth;
+    if (active.repeatBadge) {
+      active.repeatBadge.textContent = `×${count}`;
+    } else {
+      active.repeatBadge = this.createRepeatBadge(count);
+      // Collapsed messages are plain comments: the text line is the last child
+      (active.element.lastElementChild ?? active.element).appendChild(active.repeatBadge);
+    }
+    this.growLaneItem(active, active.element.offsetWidth - previousWidth);
+  }
+
+  /**
+   * Widen the lane timing of a comment that grew while flowing, so the next
+   * comment in its lanes keeps its distance from the longer tail
+   */
+  private growLaneItem(active: ActiveMessage, deltaPx: number): void {
+    if (deltaPx <= 0) return;
+
+    for (let i = active.lane; i < active.lane + active.laneSpan && i < this.lanes.length; i++) {
+      const laneState = this.lanes[i];
+      // A later comment in the lane was measured against its own width
+      if (!laneState || this.laneItems[i] !== active) continue;
+
+      laneState.lastItemWidthPx += deltaPx;
+      // The tail trails by deltaPx at the comment's own speed
+      if (active.distance > 0) {
+        laneState.lastItemExitTime += (deltaPx / active.distance) * active.duration;
+      }
+    }
+  }
+
+  private releaseQueuedGroup(queued: QueuedMessage): void {
+    if (queued.collapseKey && this.collapseGroups.get(queued.collapseKey)?.queued === queued) {
+      this.collapseGroups.delete(queued.collapseKey);
+    }
+  }
+
+  private releaseActiveGroup(active: ActiveMessage): void {
+    if (active.collapseKey && this.collapseGroups.get(active.collapseKey)?.active === active) {
+      this.collapseGroups.delete(active.collapseKey);
+    }
+    delete active.collapseKey;
+  }
+
+  /**
+   * Get effective message speed considering auto density and current video playback rate
    */
   private getEffectiveSpeedPxPerSec(): number {
-    return Math.max(1, this.settings.speedPxPerSec * this.playbackRate);
+    const speedPxPerSec = this.densityTuning?.speedPxPerSec ?? this.settings.speedPxPerSec;
+    return Math.max(1, speedPxPerSec * this.playbackRate);
   }
 
   /**
@@ -1008,7 +1603,7 @@ export class Renderer {
     this.lastWarningTime = now;
     console.warn(
       `[YT Chat Overlay] Performance warning: ${this.activeMessages.size} concurrent messages ` +
-        `(recommended max: ${this.settings.maxConcurrentMessages}). ` +
+        `(recommended max: ${this.getConcurrentLimit()}). ` +
         `Consider reducing maxMessagesPerSecond setting.`
     );
   }
@@ -1020,19 +1615,26 @@ export class Renderer {
     const element = document.createElement('div');
     element.className = 'yt-chat-overlay-message';
 
-    const isSuperChat = message.kind === 'superchat' && Boolean(message.superChat);
+    // Super Stickers share the Super Chat card, with the sticker as the body
+    const isSticker = message.kind === 'sticker';
+    const isSuperChat = (message.kind === 'superchat' || isSticker) && Boolean(message.superChat);
     const isMembership = message.kind === 'membership';
 
     if (isSuperChat && message.superChat) {
       // Super Chat card
       this.applySuperChatStyling(element, message.superChat);
+      if (isSticker) {
+        element.classList.add('yt-chat-overlay-sticker-card');
+      }
 
       const headerElement = this.createSuperChatHeader(
         message,
         message.superChat,
         this.settings.showAuthor.superChat
       );
-      const contentElement = this.createSuperChatContent(message, message.superChat);
+      const contentElement = isSticker
+        ? this.createStickerContent(message.superChat)
+        : this.createSuperChatContent(message, message.superChat);
 
       element.appendChild(headerElement);
       if (contentElement) {
@@ -1077,12 +1679,53 @@ export class Renderer {
     isMembership: boolean
   ): void {
     element.style.fontSize = `${this.settings.fontSize}px`;
-    element.style.opacity = `${this.settings.opacity}`;
+    element.style.opacity = `${
+      message.dimmed ? this.settings.opacity * LAYOUT.DIMMED_OPACITY_SCALE : this.settings.opacity
+    }`;
 
     // Apply author color only for regular messages
     if (!isSuperChat && !isMembership) {
       const authorType = message.authorType || 'normal';
-      element.style.color = this.settings.colors[authorType];
+      element.style.color = message.color ?? this.settings.colors[authorType];
+    }
+
+    if (isListedAuthor(this.settings.highlightedAuthors, message)) {
+      element.classList.add('yt-chat-overlay-highlighted-author');
+      element.style.borderColor = this.settings.highlightColor;
+      if (!isSuperChat && !isMembership) {
+        element.style.color = this.settings.highlightColor;
+      }
+    }
+  }
+
+  /**
+   * Length limit for a message's text (Super Chats have their own)
+   */
+  private getTextLimit(message: ChatMessage): number {
+    return message.kind === 'superchat'
+      ? this.settings.maxSuperChatTextLength
+      : this.settings.maxTextLength;
+  }
+
+  /**
+   * Lay out a message over its length limit in wrap or full mode.
+   * Wrapped blocks are taller than a lane; lane placement spans as many lanes
+   * as the measured height needs.
+   */
+  private applyLongTextStyles(
+    element: HTMLDivElement,
+    isSuperChat: boolean,
+    dimensions: OverlayDimensions
+  ): void {
+    if (this.settings.longTextMode === 'wrap') {
+      element.classList.add('yt-chat-overlay-long-wrap');
+      // Super Chat cards already wrap within their own max width
+      if (!isSuperChat) {
+        element.style.width = 'max-content';
+        element.style.maxWidth = `${Math.round(dimensions.width * LAYOUT.WRAP_WIDTH_RATIO)}px`;
+      }
+    } else if (this.settings.longTextMode === 'full') {
+      element.classList.add('yt-chat-overlay-long-full');
     }
   }
 
@@ -1108,7 +1751,7 @@ export class Renderer {
   /**
    * Render a single message
    */
-  private renderMessage(message: ChatMessage): RenderResult {
+  private renderMessage(chatMessage: ChatMessage, collapseKey?: string): RenderResult {
     const container = this.overlay.getContainer();
     const dimensions = this.overlay.getDimensions();
     if (!container || !dimensions) {
@@ -1116,6 +1759,14 @@ export class Renderer {
       return { status: 'dropped' };
     }
 
+    // Truncated text is also what the render listener (session export) sees
+    const textLimit = this.getTextLimit(chatMessage);
+    const isLongText = chatMessage.text.length > textLimit;
+    const message =
+      isLongText && this.settings.longTextMode === 'truncate'
+        ? truncateChatMessage(chatMessage, textLimit)
+        : chatMessage;
+
     const builtMessage = this.buildMessageElement(message);
     if (!builtMessage) {
       return { status: 'dropped' };
@@ -1123,6 +1774,17 @@ export class Renderer {
 
     const { element, isSuperChat, isMembership } = builtMessage;
     this.applyCommonMessageStyles(element, message, isSuperChat, isMembership);
+    if (isLongText) {
+      this.applyLongTextStyles(element, isSuperChat, dimensions);
+    }
+
+    // Repeats that arrived while queued are counted before measuring
+    const collapseGroup = collapseKey ? this.collapseGroups.get(collapseKey) : undefined;
+    const repeatBadge =
+      collapseGroup && collapseGroup.count > 1 ? this.createRepeatBadge(collapseGroup.count) : null;
+    if (repeatBadge) {
+      (element.lastElementChild ?? element).appendChild(repeatBadge);
+    }
 
     // Add in hidden state and measure actual rendered dimensions
     const { textWidth, messageHeight } = this.measureMessageElement(
@@ -1160,8 +1822,22 @@ export class Renderer {
     );
 
     // Track active message
+    if (message.id) {
+      activeMessage.messageId = message.id;
+    }
+    activeMessage.message = message;
+    if (collapseKey && collapseGroup) {
+      activeMessage.collapseKey = collapseKey;
+      if (repeatBadge) {
+        activeMessage.repeatBadge = repeatBadge;
+      }
+      collapseGroup.active = activeMessage;
+      collapseGroup.queued = null;
+    }
     this.activeMessages.add(activeMessage);
 
+    this.notifyRendered(message, activeMessage, textWidth, isSuperChat, isMembership, dimensions);
+
     console.log('[YT Chat Overlay] Rendering message:', {
       text: message.text.substring(0, 20),
       author: message.author,
@@ -1181,6 +1857,148 @@ export class Renderer {
     return { status: 'rendered' };
   }
 
+  /**
+   * Set the names and @handles whose mentions are highlighted
+   */
+  setMentionTargets(names: Iterable<string>): void {
+    this.mentionTargets = new Set();
+    for (const name of names) {
+      const normalized = normalizeMentionName(name);
+      if (normalized) {
+        this.mentionTargets.add(normalized);
+      }
+    }
+  }
+
+  /**
+   * Apply auto density overrides, or null to return to the manual settings
+   */
+  setDensityTuning(tuning: DensityTuning | null): void {
+    this.densityTuning = tuning;
+    if (!tuning) {
+      this.sampleCredit = 0;
+      // A lower cap may have held messages back
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Share of lanes that cannot take a new comment yet (0-1)
+   */
+  getLaneOccupancy(): number {
+    const dimensions = this.overlay.getDimensions();
+    if (!dimensions || this.lanes.length === 0) return 0;
+
+    const now = Date.now();
+    const busy = this.lanes.filter(
+      (lane) => this.calculateLaneReadyTime(lane, now, dimensions.width) > now
+    ).length;
+    return busy / this.lanes.length;
+  }
+
+  /**
+   * Register the handler for clicks on (or hovers over) flowing comments (comment interaction)
+   */
+  setCommentClickHandler(handler: CommentClickHandler | null): void {
+    this.commentClickHandler = handler;
+  }
+
+  /**
+   * Listen for comment clicks and make comments clickable when enabled
+   */
+  private attachCommentInteraction(): void {
+    const container = this.overlay.getContainer();
+    if (!container) return;
+
+    if (this.clickTarget !== container) {
+      this.detachCommentInteraction();
+      container.addEventListener('click', this.handleCommentClick);
+      container.addEventListener('dblclick', this.handleCommentDoubleClick);
+      container.addEventListener('mouseover', this.handleCommentHover);
+      container.addEventListener('mouseout', this.handleCommentHoverEnd);
+      this.clickTarget = container;
+    }
+    container.classList.toggle('yt-chat-overlay-interactive', this.settings.commentInteraction);
+  }
+
+  private detachCommentInteraction(): void {
+    if (!this.clickTarget) return;
+    this.clickTarget.removeEventListener('click', this.handleCommentClick);
+    this.clickTarget.removeEventListener('dblclick', this.handleCommentDoubleClick);
+    this.clickTarget.removeEventListener('mouseover', this.handleCommentHover);
+    this.clickTarget.removeEventListener('mouseout', this.handleCommentHoverEnd);
+    this.clearHoverTimer();
+    this.hoverElement = null;
+    this.clickTarget.classList.remove('yt-chat-overlay-interactive');
+    this.clickTarget = null;
+  }
+
+  private clearHoverTimer(): void {
+    if (this.hoverTimer !== null) {
+      window.clearTimeout(this.hoverTimer);
+      this.hoverTimer = null;
+    }
+  }
+
+  /**
+   * Active comment under a click, if comment interaction is enabled
+   */
+  private findCommentTarget(event: MouseEvent): ActiveMessage | null {
+    if (!this.settings.commentInteraction || !(event.target instanceof Element)) return null;
+
+    const element = event.target.closest('.yt-chat-overlay-message');
+    if (!element) return null;
+    return Array.from(this.activeMessages).find((active) => active.element === element) ?? null;
+  }
+
+  /**
+   * Register a listener invoked for every message that starts animating
+   */
+  setRenderListener(listener: RenderListener | null): void {
+    this.renderListener = listener;
+  }
+
+  /**
+   * Report a rendered message to the render listener
+   */
+  private notifyRendered(
+    message: ChatMessage,
+    active: ActiveMessage,
+    width: number,
+    isSuperChat: boolean,
+    isMembership: boolean,
+    dimensions: OverlayDimensions
+  ): void {
+    if (!this.renderListener) return;
+
+    let color: string;
+    if (isSuperChat && message.superChat) {
+      const rgb = this.resolveSuperChatRgb(message.superChat);
+      color = `rgb(${rgb.r}, ${rgb.g}, ${rgb.b})`;
+    } else if (isMembership) {
+      color = colors.author.member;
+    } else {
+      color = message.color ?? this.settings.colors[message.authorType || 'normal'];
+    }
+
+    try {
+      this.renderListener({
+        message,
+        lane: active.lane,
+        offsetY: active.offsetY,
+        width,
+        distance: active.distance,
+        duration: active.duration,
+        delay: active.delay,
+        color,
+        overlayWidth: dimensions.width,
+        overlayHeight: dimensions.height,
+      });
+    } catch (error) {
+      console.warn('[Renderer] Render listener failed:', error);
+    }
+  }
+
   /**
    * Calculate required lane count for a message
    */
@@ -1195,7 +2013,7 @@ export class Renderer {
   /**
    * Calculate lane ready time for a new message width
    */
-  private calculateLaneReadyTime(lane: LaneState, now: number): number {
+  private calculateLaneReadyTime(lane: LaneState, now: number, viewportWidth: number): number {
     if (lane.lastItemStartTime <= 0) {
       return now;
     }
@@ -1215,7 +2033,26 @@ export class Renderer {
     );
     const verticalReadyTime = lane.lastItemStartTime + verticalClearTime;
 
-    return Math.max(now, horizontalReadyTime, verticalReadyTime);
+    // A faster comment (auto density, playback rate change) must not catch up
+    // with the previous one before it has left the screen
+    const effectiveSpeedPxPerSec = this.getEffectiveSpeedPxPerSec();
+    const catchUpReadyTime =
+      effectiveSpeedPxPerSec > lane.lastItemSpeedPxPerSec
+        ? lane.lastItemExitTime - (viewportWidth / effectiveSpeedPxPerSec) * 1000
+        : now;
+
+    return Math.max(now, horizontalReadyTime, verticalReadyTime, catchUpReadyTime);
+  }
+
+  /**
+   * First lane starting below the banner area (pinned message / poll)
+   */
+  private getFirstLaneBelowBanner(dimensions: OverlayDimensions): number {
+    const bannerBottom = this.overlay.getBannerBottom();
+    if (bannerBottom <= 0) return 0;
+
+    const lanesTop = dimensions.height * this.settings.safeTop;
+    return Math.max(0, Math.ceil((bannerBottom - lanesTop) / dimensions.laneHeight));
   }
 
   /**
@@ -1232,7 +2069,8 @@ export class Renderer {
     if (!dimensions) return null;
 
     const requiredLanes = this.calculateRequiredLanes(messageHeight, dimensions.laneHeight);
-    if (requiredLanes > this.lanes.length) {
+    const firstLane = this.getFirstLaneBelowBanner(dimensions);
+    if (requiredLanes > this.lanes.length - firstLane) {
       return null;
     }
 
@@ -1242,7 +2080,7 @@ export class Renderer {
     // We prefer blocks with a SMALLER maxLastUsed (older = less recently used).
     let bestBlockMaxLastUsed = Number.POSITIVE_INFINITY;
 
-    for (let i = 0; i <= this.lanes.length - requiredLanes; i++) {
+    for (let i = firstLane; i <= this.lanes.length - requiredLanes; i++) {
       let blockReadyTime = now;
       // Track the most-recent lastItemStartTime within this block to detect
       // how recently ANY lane in the block was used.
@@ -1255,7 +2093,7 @@ export class Renderer {
           break;
         }
 
-        const laneReadyTime = this.calculateLaneReadyTime(lane, now);
+        const laneReadyTime = this.calculateLaneReadyTime(lane, now, dimensions.width);
         blockReadyTime = Math.max(blockReadyTime, laneReadyTime);
         blockMaxLastUsed = Math.max(blockMaxLastUsed, lane.lastItemStartTime);
       }
@@ -1285,6 +2123,64 @@ export class Renderer {
     };
   }
 
+  /**
+   * Retract a message by chat item ID (deleted by a moderator or its author)
+   * Queued copies are dropped before rendering; active ones fade out quickly.
+   * @returns true if a queued or active message was found
+   */
+  retractMessage(messageId: string): boolean {
+    const queuedCount = this.messageQueue.length;
+    this.messageQueue = this.messageQueue.filter((queued) => queued.message.id !== messageId);
+    let found = this.messageQueue.length !== queuedCount;
+
+    for (const active of this.activeMessages) {
+      if (active.messageId !== messageId) continue;
+      found = true;
+      this.fadeOutMessage(active);
+    }
+
+    if (found) {
+      console.log(`[Renderer] Retracted message ${messageId}`);
+    }
+    return found;
+  }
+
+  /**
+   * Fade out visible comments by an author and drop their queued messages
+   */
+  retractAuthor(author: AuthorRef): void {
+    const authors = [author];
+    this.messageQueue = this.messageQueue.filter(
+      (queued) => !isListedAuthor(authors, queued.message)
+    );
+    for (const active of this.activeMessages) {
+      if (active.message && isListedAuthor(authors, active.message)) {
+        this.fadeOutMessage(active);
+      }
+    }
+  }
+
+  /**
+   * Fade out an active message, then remove it
+   */
+  private fadeOutMessage(active: ActiveMessage): void {
+    // Only fade once even if the retraction is reported repeatedly
+    delete active.messageId;
+    // Repeats arriving now start a new comment
+    this.releaseActiveGroup(active);
+
+    try {
+      const fade = active.element.animate([{ opacity: 0 }], {
+        duration: LAYOUT.RETRACT_FADE_MS,
+        easing: 'ease-out',
+        fill: 'forwards',
+      });
+      fade.addEventListener('finish', () => this.removeMessage(active), { once: true });
+    } catch {
+      this.removeMessage(active);
+    }
+  }
+
   /**
    * Remove message by element
    */
@@ -1310,6 +2206,7 @@ export class Renderer {
     if (active.element.parentNode) {
       active.element.remove();
     }
+    this.releaseActiveGroup(active);
     this.activeMessages.delete(active);
   }
 
@@ -1320,6 +2217,7 @@ export class Renderer {
     this.settings = settings;
     this.initLanes();
     this.injectStyles();
+    this.attachCommentInteraction();
   }
 
   /**
@@ -1355,8 +2253,9 @@ export class Renderer {
           }
         }
 
-        if (this.lastProcessTime > 0) {
-          this.lastProcessTime += pausedDuration;
+        // Time spent paused does not age queued messages
+        for (const queued of this.messageQueue) {
+          queued.enqueuedAt += pausedDuration;
         }
       }
     }
@@ -1412,6 +2311,25 @@ export class Renderer {
     }
   }
 
+  /**
+   * Flush all active and queued messages and reset lane state
+   * Used when the video seeks: the visible comments no longer match the picture.
+   * Pause state and playback rate are preserved.
+   */
+  flush(): void {
+    this.clearRetryTimer();
+    for (const active of this.activeMessages) {
+      this.removeMessage(active);
+    }
+    this.activeMessages.clear();
+    this.messageQueue = [];
+    this.collapseGroups.clear();
+    this.rateTokens = 0;
+    this.lastRefillAt = 0;
+    this.initLanes();
+    console.log('[Renderer] Flushed messages and lane state');
+  }
+
   /**
    * Clear all messages
    */
@@ -1424,6 +2342,7 @@ export class Renderer {
     }
     this.activeMessages.clear();
     this.messageQueue = [];
+    this.collapseGroups.clear();
   }
 
   /**
@@ -1440,6 +2359,10 @@ export class Renderer {
     this.styleElement?.remove();
     this.styleElement = null;
 
+    this.renderListener = null;
+    this.commentClickHandler = null;
+    this.detachCommentInteraction();
+
     // Clear overlay reference to prevent memory leaks
     // @ts-expect-error - Clearing readonly property for cleanup
     this.overlay = null;
@@ -0,0 +1,313 @@
+/**
+ * Scripted Source
+ *
+ * MessageSource that emits ChatMessages from a JSON array instead of the live
+ * chat DOM. Used for manual testing of the renderer and as a template for
+ * alternative inputs.
+ *
+ * Script format:
+ * [
+ *   { "text": "hello", "delayMs": 0 },
+ *   { "text": "wow", "author": "viewer", "authorType": "member", "delayMs": 1200 },
+ *   { "text": "thanks!", "kind": "superchat", "superChat": { "amount": "$5.00", "tier": "green" } },
+ *   { "text": "", "kind": "membership", "membership": { "type": "gift", "giftCount": 5 } },
+ *   { "text": "spam", "id": "spam-1" },
+ *   { "retract": "spam-1", "delayMs": 3000 }
+ * ]
+ *
+ * Entries with "retract" delete the earlier message with that "id", the same
+ * way a moderator deletion does in live chat.
+ *
+ * delayMs is relative to the start of the script; entries without it follow
+ * the previous entry after CONFIG.DEFAULT_INTERVAL_MS.
+ */
+
+import type {
+  AuthorType,
+  ChatMessage,
+  MembershipEventType,
+  MembershipInfo,
+  SuperChatInfo,
+} from '@app-types';
+import { parseAmount } from '@core/currency';
+import { isAllowedYouTubeImageUrl } from '@core/image-url';
+import type { MessageCallback, MessageSource, RetractCallback } from '@core/message-source';
+
+/**
+ * Configuration constants
+ */
+const CONFIG = {
+  /** Spacing between entries without an explicit delayMs (ms) */
+  DEFAULT_INTERVAL_MS: 500,
+  /** Pause before restarting a looped script (ms) */
+  LOOP_GAP_MS: 1000,
+  /** Source counts as active for this long after the last emitted message (ms) */
+  ACTIVE_WINDOW_MS: 30000,
+} as const;
+
+const MESSAGE_KINDS: readonly ChatMessage['kind'][] = [
+  'text',
+  'superchat',
+  'sticker',
+  'membership',
+];
+const AUTHOR_TYPES: readonly AuthorType[] = ['normal', 'member', 'moderator', 'owner', 'verified'];
+const MEMBERSHIP_EVENT_TYPES: readonly MembershipEventType[] = [
+  'new',
+  'milestone',
+  'gift',
+  'redemption',
+];
+const SUPER_CHAT_TIERS: readonly SuperChatInfo['tier'][] = [
+  'blue',
+  'cyan',
+  'green',
+  'yellow',
+  'orange',
+  'magenta',
+  'red',
+];
+
+type ScriptedMessage = Omit<ChatMessage, 'timestamp'>;
+
+type ScriptedEntry = {
+  /** Emit time relative to script start (ms) */
+  atMs: number;
+} & ({ message: ScriptedMessage } | { retractId: string });
+
+type ParsedEntry = (ScriptedMessage | { retractId: string }) & { delayMs?: number };
+
+export interface ScriptedSourceOptions {
+  /** Restart from the first entry after the last one */
+  loop?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const includes = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+/**
+ * Validate a script superChat object
+ */
+const parseSuperChat = (value: unknown): SuperChatInfo | undefined => {
+  if (!isRecord(value) || typeof value.amount !== 'string') return undefined;
+
+  const superChat: SuperChatInfo = {
+    amount: value.amount,
+    tier: includes(SUPER_CHAT_TIERS, value.tier) ? value.tier : 'blue',
+  };
+  const parsedAmount = parseAmount(value.amount);
+  if (parsedAmount) {
+    superChat.value = parsedAmount.value;
+  }
+  const currency = typeof value.currency === 'string' ? value.currency : parsedAmount?.currency;
+  if (currency) {
+    superChat.currency = currency;
+  }
+  if (typeof value.stickerUrl === 'string' && isAllowedYouTubeImageUrl(value.stickerUrl)) {
+    superChat.stickerUrl = value.stickerUrl;
+  }
+  return superChat;
+};
+
+/**
+ * Validate a script membership object (defaults to a new member event)
+ */
+const parseMembership = (value: unknown): MembershipInfo => {
+  if (!isRecord(value)) return { type: 'new' };
+
+  const membership: MembershipInfo = {
+    type: includes(MEMBERSHIP_EVENT_TYPES, value.type) ? value.type : 'new',
+  };
+  if (typeof value.months === 'number' && value.months > 0) {
+    membership.months = value.months;
+  }
+  if (typeof value.giftCount === 'number' && value.giftCount > 0) {
+    membership.giftCount = value.giftCount;
+  }
+  return membership;
+};
+
+/**
+ * Validate a script entry, returning null for unusable entries
+ */
+const parseEntry = (value: unknown): ParsedEntry | null => {
+  if (!isRecord(value)) return null;
+  const delayMs =
+    typeof value.delayMs === 'number' && Number.isFinite(value.delayMs) && value.delayMs >= 0
+      ? value.delayMs
+      : undefined;
+
+  if (typeof value.retract === 'string' && value.retract) {
+    const retraction: ParsedEntry = { retractId: value.retract };
+    if (delayMs !== undefined) {
+      retraction.delayMs = delayMs;
+    }
+    return retraction;
+  }
+  if (typeof value.text !== 'string') return null;
+
+  const kind = includes(MESSAGE_KINDS, value.kind) ? value.kind : 'text';
+  const message: ScriptedMessage & { delayMs?: number } = {
+    text: value.text,
+    kind,
+    authorType: includes(AUTHOR_TYPES, value.authorType) ? value.authorType : 'normal',
+  };
+  if (typeof value.id === 'string' && value.id) {
+    message.id = value.id;
+  }
+  if (typeof value.author === 'string') {
+    message.author = value.author;
+  }
+  if (typeof value.color === 'string') {
+    message.color = value.color;
+  }
+  if (kind === 'membership') {
+    message.membership = parseMembership(value.membership);
+  }
+  if (kind === 'superchat' || kind === 'sticker') {
+    const superChat = parseSuperChat(value.superChat);
+    if (!superChat) return null;
+    message.superChat = superChat;
+  }
+  if (delayMs !== undefined) {
+    message.delayMs = delayMs;
+  }
+  if (!message.text && kind === 'text') return null;
+  return message;
+};
+
+/**
+ * Parse a JSON script (string or already-parsed array) into timed entries
+ * @throws Error if the script is not a JSON array or has no usable entries
+ */
+const parseMessageScript = (script: unknown): ScriptedEntry[] => {
+  const data: unknown = typeof script === 'string' ? JSON.parse(script) : script;
+  if (!Array.isArray(data)) {
+    throw new Error('Message script must be a JSON array');
+  }
+
+  const entries: ScriptedEntry[] = [];
+  let previousAtMs = -CONFIG.DEFAULT_INTERVAL_MS;
+  for (const item of data) {
+    const parsed = parseEntry(item);
+    if (!parsed) continue;
+
+    const { delayMs, ...rest } = parsed;
+    const atMs = delayMs ?? previousAtMs + CONFIG.DEFAULT_INTERVAL_MS;
+    entries.push(
+      'retractId' in rest ? { atMs, retractId: rest.retractId } : { atMs, message: rest }
+    );
+    previousAtMs = atMs;
+  }
+
+  if (entries.length === 0) {
+    throw new Error('Message script has no valid entries');
+  }
+
+  entries.sort((a, b) => a.atMs - b.atMs);
+  return entries;
+};
+
+/**
+ * ScriptedSource class
+ */
+export class ScriptedSource implements MessageSource {
+  private readonly entries: ScriptedEntry[];
+  private callback: MessageCallback | null = null;
+  private retractCallback: RetractCallback | null = null;
+  private timer: number | null = null;
+  private nextIndex = 0;
+  private startedAt = 0;
+  private lastMessageTime = 0;
+
+  constructor(
+    script: unknown,
+    private readonly options: ScriptedSourceOptions = {}
+  ) {
+    this.entries = parseMessageScript(script);
+  }
+
+  /**
+   * Start emitting scripted messages
+   */
+  async start(callback: MessageCallback, onRetract?: RetractCallback): Promise<boolean> {
+    this.stop();
+    this.callback = callback;
+    this.retractCallback = onRetract ?? null;
+    this.nextIndex = 0;
+    this.startedAt = Date.now();
+    this.scheduleNext();
+    console.log(`[ScriptedSource] Started with ${this.entries.length} entries`);
+    return true;
+  }
+
+  /**
+   * Schedule the next entry relative to the script start
+   */
+  private scheduleNext(): void {
+    const entry = this.entries[this.nextIndex];
+    if (!entry) {
+      if (this.options.loop && this.callback) {
+        const lastAtMs = this.entries[this.entries.length - 1]?.atMs ?? 0;
+        this.startedAt += lastAtMs + CONFIG.LOOP_GAP_MS;
+        this.nextIndex = 0;
+        this.scheduleNext();
+      }
+      return;
+    }
+
+    const waitMs = Math.max(0, this.startedAt + entry.atMs - Date.now());
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.emit(entry);
+      this.nextIndex++;
+      this.scheduleNext();
+    }, waitMs);
+  }
+
+  private emit(entry: ScriptedEntry): void {
+    if (!this.callback) return;
+
+    if ('retractId' in entry) {
+      this.retractCallback?.(entry.retractId);
+      return;
+    }
+
+    const now = Date.now();
+    this.lastMessageTime = now;
+    try {
+      this.callback({ ...entry.message, timestamp: now });
+    } catch (error) {
+      console.warn('[ScriptedSource] Message callback failed:', error);
+    }
+  }
+
+  /**
+   * Stop emitting messages
+   */
+  stop(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.callback = null;
+    this.retractCallback = null;
+  }
+
+  /**
+   * Check if a message was emitted recently
+   */
+  isActive(): boolean {
+    return Date.now() - this.lastMessageTime < CONFIG.ACTIVE_WINDOW_MS;
+  }
+
+  /**
+   * Scripted messages are always delivered live
+   */
+  isReplay(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Selector Registry
+ *
+ * Single place for the CSS selectors used to find YouTube's player and chat
+ * elements. User overrides from settings are tried before the built-in
+ * defaults, so a YouTube markup change can be hotfixed from the settings
+ * panel without waiting for a release.
+ */
+
+import type { SelectorGroup, SelectorOverrides } from '@app-types';
+
+/**
+ * Built-in selectors per group (in priority order)
+ */
+const DEFAULT_SELECTORS: Readonly<Record<SelectorGroup, readonly string[]>> = {
+  playerContainer: ['#movie_player', '.html5-video-player', 'ytd-player', '#player-container'],
+  video: [
+    '#movie_player video',
+    '.html5-video-player video',
+    'video.html5-main-video',
+    'video[src]',
+  ],
+  chatFrame: ['ytd-live-chat-frame#chat', '#chat', 'ytd-live-chat-frame'],
+  chatIframe: [
+    'iframe[src*="live_chat"]',
+    'iframe#chatframe',
+    'ytd-live-chat-frame iframe',
+    '#chat iframe',
+  ],
+  chatItemList: [
+    '#items.yt-live-chat-item-list-renderer',
+    '#items',
+    'yt-live-chat-item-list-renderer #items',
+  ],
+  chatContainer: [
+    // Most specific selectors first
+    '#chat #items.yt-live-chat-item-list-renderer',
+    '#items.yt-live-chat-item-list-renderer',
+    'yt-live-chat-item-list-renderer #items',
+    'ytd-live-chat-frame yt-live-chat-item-list-renderer',
+    'yt-live-chat-app yt-live-chat-item-list-renderer',
+
+    // Frame-based selectors
+    'ytd-live-chat-frame #items',
+
+    // App-based selectors
+    'yt-live-chat-app #items',
+
+    // Chat panel selectors
+    '#chat-container #items',
+    '#chat #items',
+    'ytd-live-chat #items',
+
+    // Tag-based selector
+    'yt-live-chat-item-list-renderer',
+
+    // Generic selectors (LAST - most likely to match wrong elements!)
+    // NOTE: #items can match sidebar elements, so we validate it
+    '#items',
+  ],
+  chatToggleButton: [
+    // Theater mode toggle button
+    'ytd-toggle-button-renderer button[aria-label*="chat" i]',
+    'ytd-toggle-button-renderer button[aria-label*="채팅" i]',
+    // Live chat button
+    'button#show-hide-button',
+    // Engagement panel toggle
+    'ytd-engagement-panel-title-header-renderer button',
+    // Engagement panel list buttons
+    'ytd-engagement-panel-section-list-renderer button[aria-label*="chat" i]',
+    'ytd-engagement-panel-section-list-renderer button[aria-label*="채팅" i]',
+    // Generic chat-related buttons (ignore overlay settings button)
+    'button:not(#yt-chat-overlay-settings-button)[aria-label*="show chat" i]',
+    'button:not(#yt-chat-overlay-settings-button)[aria-label*="open chat" i]',
+    'button:not(#yt-chat-overlay-settings-button)[aria-label*="chat" i]',
+    'button:not(#yt-chat-overlay-settings-button)[aria-label*="채팅" i]',
+  ],
+};
+
+const SELECTOR_GROUPS = Object.keys(DEFAULT_SELECTORS) as SelectorGroup[];
+
+/**
+ * Groups whose elements live inside the chat iframe document
+ */
+const CHAT_DOCUMENT_GROUPS: ReadonlySet<SelectorGroup> = new Set(['chatItemList']);
+
+let overrides: SelectorOverrides = {};
+
+/**
+ * Check that a selector parses (invalid selectors make querySelector throw)
+ */
+const isValidSelector = (selector: string): boolean => {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isSelectorGroup = (value: string): value is SelectorGroup =>
+  (SELECTOR_GROUPS as string[]).includes(value);
+
+/**
+ * Merge user overrides (tried first) with the built-in selectors of a group
+ */
+const mergeSelectors = (group: SelectorGroup, groupOverrides: SelectorOverrides): string[] => [
+  ...new Set([...(groupOverrides[group] ?? []), ...DEFAULT_SELECTORS[group]]),
+];
+
+/**
+ * Selectors of a group: user overrides first, then the built-in defaults
+ */
+export const getSelectors = (group: SelectorGroup): readonly string[] =>
+  mergeSelectors(group, overrides);
+
+/**
+ * Apply user overrides from settings; invalid selectors are skipped
+ */
+export const setSelectorOverrides = (next: SelectorOverrides): void => {
+  const valid: SelectorOverrides = {};
+  for (const group of SELECTOR_GROUPS) {
+    const selectors = next[group]?.filter((selector) => {
+      if (isValidSelector(selector)) return true;
+      console.warn(`[Selectors] Ignoring invalid ${group} selector: ${selector}`);
+      return false;
+    });
+    if (selectors && selectors.length > 0) {
+      valid[group] = selectors;
+    }
+  }
+  overrides = valid;
+};
+
+/**
+ * Format overrides for editing (one "group: selector" pair per line)
+ */
+export const formatSelectorOverrides = (value: SelectorOverrides): string =>
+  SELECTOR_GROUPS.flatMap((group) =>
+    (value[group] ?? []).map((selector) => `${group}: ${selector}`)
+  ).join('\n');
+
+/**
+ * Parse edited overrides; lines with an unknown group are skipped
+ */
+export const parseSelectorOverrides = (text: string): SelectorOverrides => {
+  const parsed: SelectorOverrides = {};
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^(\w+)\s*:\s*(.+)$/);
+    const group = match?.[1];
+    const selector = match?.[2]?.trim();
+    if (!group || !selector || !isSelectorGroup(group)) continue;
+
+    parsed[group] = [...(parsed[group] ?? []), selector];
+  }
+  return parsed;
+};
+
+/**
+ * Result of testing one selector group on the current page
+ */
+interface SelectorTestResult {
+  group: SelectorGroup;
+  /** First selector that matched, or null */
+  selector: string | null;
+  /** True when the match came from a user override */
+  overridden: boolean;
+}
+
+/**
+ * Read the chat iframe document (same-origin only)
+ */
+const getChatDocument = (groupOverrides: SelectorOverrides): Document | null => {
+  for (const selector of mergeSelectors('chatIframe', groupOverrides)) {
+    try {
+      const iframe = document.querySelector<HTMLIFrameElement>(selector);
+      if (iframe?.contentDocument) return iframe.contentDocument;
+    } catch {
+      // Invalid selector or cross-origin frame
+    }
+  }
+  return null;
+};
+
+/**
+ * Report which selector of each group matches on the current page
+ * @param groupOverrides overrides to test (defaults to the applied ones)
+ */
+export const testSelectors = (
+  groupOverrides: SelectorOverrides = overrides
+): SelectorTestResult[] => {
+  const chatDocument = getChatDocument(groupOverrides);
+
+  return SELECTOR_GROUPS.map((group) => {
+    // Chat items are in the chat frame, or in the page itself on popout chat pages
+    const root = CHAT_DOCUMENT_GROUPS.has(group) ? (chatDocument ?? document) : document;
+    const selector =
+      mergeSelectors(group, groupOverrides).find((candidate) => {
+        try {
+          return root.querySelector(candidate) !== null;
+        } catch {
+          return false;
+        }
+      }) ?? null;
+
+    return {
+      group,
+      selector,
+      overridden: selector !== null && (groupOverrides[group] ?? []).includes(selector),
+    };
+  });
+};
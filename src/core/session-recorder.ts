@@ -0,0 +1,113 @@
+/**
+ * Session Recorder
+ *
+ * Opt-in, in-memory log of the messages the renderer displayed during the
+ * current session (lane, timing, geometry and color) so it can be exported
+ * as a subtitle track. Nothing is persisted or transmitted.
+ */
+
+import type { ChatMessage } from '@app-types';
+import type { RenderedMessageInfo } from '@core/renderer';
+
+/**
+ * A single recorded comment, positioned in overlay pixels
+ */
+export interface SessionEntry {
+  /** Chat item ID (for dropping deleted messages) */
+  id?: string;
+  /** Display text (plain text, emoji as alt text) */
+  text: string;
+  /** Time the comment starts moving (ms, video time when available) */
+  startMs: number;
+  /** Time to cross the screen (ms) */
+  durationMs: number;
+  /** Lane index */
+  lane: number;
+  /** Vertical position (px) */
+  offsetY: number;
+  /** Horizontal travel distance (px) */
+  distance: number;
+  /** Resolved text color (CSS color) */
+  color: string;
+  /** Overlay size at render time */
+  overlayWidth: number;
+  overlayHeight: number;
+}
+
+/**
+ * Maximum number of entries kept (oldest dropped first)
+ */
+const MAX_ENTRIES = 20000;
+
+/**
+ * Build the single-line text used for export
+ */
+const formatEntryText = (message: ChatMessage): string => {
+  if ((message.kind === 'superchat' || message.kind === 'sticker') && message.superChat) {
+    const author = message.author ? ` ${message.author}` : '';
+    const body = message.text ? `: ${message.text}` : '';
+    return `[${message.superChat.amount}]${author}${body}`;
+  }
+
+  if (message.kind === 'membership') {
+    const author = message.author ?? 'Member';
+    return message.text ? `${author}: ${message.text}` : author;
+  }
+
+  return message.text;
+};
+
+export class SessionRecorder {
+  private entries: SessionEntry[] = [];
+
+  constructor(private readonly getClockMs: () => number) {}
+
+  /**
+   * Record a rendered message
+   */
+  record(info: RenderedMessageInfo): void {
+    const text = formatEntryText(info.message);
+    if (!text) return;
+
+    const entry: SessionEntry = {
+      text,
+      startMs: this.getClockMs() + info.delay,
+      durationMs: info.duration,
+      lane: info.lane,
+      offsetY: info.offsetY,
+      distance: info.distance,
+      color: info.color,
+      overlayWidth: info.overlayWidth,
+      overlayHeight: info.overlayHeight,
+    };
+    if (info.message.id) {
+      entry.id = info.message.id;
+    }
+    this.entries.push(entry);
+
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+
+  /**
+   * Drop a recorded message by chat item ID (deleted or retracted)
+   */
+  remove(messageId: string): void {
+    this.entries = this.entries.filter((entry) => entry.id !== messageId);
+  }
+
+  /**
+   * Recorded entries in render order
+   */
+  getEntries(): readonly SessionEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Drop all recorded entries
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
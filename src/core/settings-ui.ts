@@ -1,5 +1,20 @@
-import { type OverlaySettings, SETTINGS_LIMITS } from '@app-types';
-import { isVisibleElement, PLAYER_CONTAINER_SELECTORS, waitForElementMatch } from '@core/dom';
+import {
+  type MuteRule,
+  type MuteRuleAction,
+  type MuteRuleScope,
+  type OverlaySettings,
+  SETTINGS_LIMITS,
+} from '@app-types';
+import { formatAuthorList, parseAuthorList } from '@core/author-lists';
+import { formatCurrencyRates, parseCurrencyRates } from '@core/currency';
+import { isVisibleElement, waitForElementMatch } from '@core/dom';
+import { compileMuteRule, createMuteRuleId } from '@core/mute-filter';
+import {
+  formatSelectorOverrides,
+  getSelectors,
+  parseSelectorOverrides,
+  testSelectors,
+} from '@core/selectors';
 import { borderRadius, colors, shadows, spacing, typography, zIndex } from './design-tokens.js';
 
 const STYLE_ID = 'yt-chat-overlay-settings-style';
@@ -7,7 +22,23 @@ const BUTTON_ID = 'yt-chat-overlay-settings-button';
 const BACKDROP_ID = 'yt-chat-overlay-settings-backdrop';
 const TITLE_ID = 'yt-chat-overlay-settings-title';
 
+const MUTE_RULE_SCOPES: ReadonlyArray<[MuteRuleScope, string]> = [
+  ['text', 'Text'],
+  ['author', 'Author'],
+  ['both', 'Both'],
+];
+
+const MUTE_RULE_ACTIONS: ReadonlyArray<[MuteRuleAction, string]> = [
+  ['hide', 'Hide'],
+  ['mask', 'Mask ●●●'],
+  ['dim', 'Dim'],
+];
+
 const toPercent = (value: number): number => Math.round(value * 100);
+const toSeconds = (valueMs: number): number => valueMs / 1000;
+const formatOffsetSeconds = (value: number): string =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}s`;
+const formatDensity = (value: number): string => `${value} / ${SETTINGS_LIMITS.density.max}`;
 
 const UI_LIMITS = {
   superChatOpacity: {
@@ -25,8 +56,37 @@ const UI_LIMITS = {
     max: toPercent(SETTINGS_LIMITS.safeBottom.max),
     step: toPercent(SETTINGS_LIMITS.safeBottom.step),
   },
+  collapseWindow: {
+    min: toSeconds(SETTINGS_LIMITS.collapseWindowMs.min),
+    max: toSeconds(SETTINGS_LIMITS.collapseWindowMs.max),
+    step: toSeconds(SETTINGS_LIMITS.collapseWindowMs.step),
+  },
+  queueMaxAge: {
+    min: toSeconds(SETTINGS_LIMITS.queueMaxAgeMs.min),
+    max: toSeconds(SETTINGS_LIMITS.queueMaxAgeMs.max),
+    step: toSeconds(SETTINGS_LIMITS.queueMaxAgeMs.step),
+  },
+  liveDelayOffset: {
+    min: toSeconds(SETTINGS_LIMITS.liveDelayOffsetMs.min),
+    max: toSeconds(SETTINGS_LIMITS.liveDelayOffsetMs.max),
+    step: toSeconds(SETTINGS_LIMITS.liveDelayOffsetMs.step),
+  },
 } as const;
 
+/**
+ * Actions triggered from the settings modal that are handled by the app
+ */
+export interface SettingsUiActions {
+  /** Load a local Niconico/Bilibili XML comment file, resolves to comment count */
+  importDanmaku: (file: File) => Promise<number>;
+  /** Unload the imported comment file */
+  clearDanmaku: () => void;
+  /** Download recorded comments as an ASS subtitle file, returns comment count */
+  exportAss: () => number;
+  /** Matched message count per mute rule ID (this page session) */
+  getMuteRuleHits: () => ReadonlyMap<string, number>;
+}
+
 export class SettingsUi {
   private playerElement: HTMLElement | null = null;
   private button: HTMLButtonElement | null = null;
@@ -48,7 +108,8 @@ export class SettingsUi {
   constructor(
     private readonly getSettings: () => Readonly<OverlaySettings>,
     private readonly updateSettings: (partial: Partial<OverlaySettings>) => void,
-    private readonly resetSettings: () => void
+    private readonly resetSettings: () => void,
+    private readonly actions: SettingsUiActions
   ) {}
 
   async attach(): Promise<void> {
@@ -79,7 +140,7 @@ export class SettingsUi {
   }
 
   private async findPlayerContainer(): Promise<HTMLElement | null> {
-    const match = await waitForElementMatch<HTMLElement>(PLAYER_CONTAINER_SELECTORS, {
+    const match = await waitForElementMatch<HTMLElement>(getSelectors('playerContainer'), {
       attempts: 5,
       intervalMs: 500,
       predicate: isVisibleElement,
@@ -212,6 +273,17 @@ export class SettingsUi {
           height: 18px;
           cursor: pointer;
         }
+        .yt-chat-overlay-settings-field input[type="range"] {
+          flex: 1;
+          max-width: 140px;
+          cursor: pointer;
+        }
+        .yt-chat-overlay-settings-field output {
+          min-width: 44px;
+          text-align: right;
+          font-variant-numeric: tabular-nums;
+          color: ${colors.ui.textMuted};
+        }
         .yt-chat-overlay-settings-field select {
           padding: ${spacing.xs}px ${spacing.sm}px;
           border-radius: ${borderRadius.sm};
@@ -220,6 +292,58 @@ export class SettingsUi {
           color: ${colors.ui.text};
           cursor: pointer;
         }
+        .yt-chat-overlay-settings-section textarea {
+          min-height: 96px;
+          padding: ${spacing.xs}px ${spacing.sm}px;
+          border-radius: ${borderRadius.sm};
+          border: 1px solid ${colors.ui.border};
+          background: ${colors.ui.backgroundLight};
+          color: ${colors.ui.text};
+          font-family: ui-monospace, monospace;
+          font-size: ${typography.fontSize.xs};
+          resize: vertical;
+        }
+        .yt-chat-overlay-mute-rules {
+          display: flex;
+          flex-direction: column;
+          gap: ${spacing.sm}px;
+        }
+        .yt-chat-overlay-mute-rule {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: ${spacing.xs}px ${spacing.sm}px;
+          padding-bottom: ${spacing.sm}px;
+          border-bottom: 1px solid ${colors.ui.border};
+          font-size: ${typography.fontSize.sm};
+        }
+        .yt-chat-overlay-mute-rule input[type="text"] {
+          flex: 1 1 100%;
+          font-family: ui-monospace, monospace;
+        }
+        .yt-chat-overlay-mute-rule input[type="number"] {
+          width: 4.5em;
+        }
+        .yt-chat-overlay-mute-rule input[type="text"],
+        .yt-chat-overlay-mute-rule input[type="number"],
+        .yt-chat-overlay-mute-rule select {
+          padding: ${spacing.xs}px ${spacing.sm}px;
+          border-radius: ${borderRadius.sm};
+          border: 1px solid ${colors.ui.border};
+          background: ${colors.ui.backgroundLight};
+          color: ${colors.ui.text};
+        }
+        .yt-chat-overlay-mute-rule label {
+          display: flex;
+          align-items: center;
+          gap: ${spacing.xs}px;
+        }
+        .yt-chat-overlay-mute-rule-hits {
+          margin-left: auto;
+          font-size: ${typography.fontSize.xs};
+          color: ${colors.ui.textMuted};
+          font-variant-numeric: tabular-nums;
+        }
         .yt-chat-overlay-author-grid {
           display: grid;
           grid-template-columns: auto 1fr auto;
@@ -237,6 +361,32 @@ export class SettingsUi {
         .yt-chat-overlay-author-grid-checkbox {
           justify-self: end;
         }
+        .yt-chat-overlay-settings-file {
+          display: flex;
+          align-items: center;
+          gap: ${spacing.sm}px;
+          font-size: ${typography.fontSize.sm};
+        }
+        .yt-chat-overlay-settings-file input[type="file"] {
+          flex: 1;
+          min-width: 0;
+          color: ${colors.ui.textMuted};
+        }
+        .yt-chat-overlay-settings-file button,
+        .yt-chat-overlay-settings-section button[data-action] {
+          border: 1px solid ${colors.ui.border};
+          border-radius: ${borderRadius.sm};
+          padding: ${spacing.xs}px ${spacing.sm}px;
+          background: ${colors.ui.backgroundLight};
+          color: ${colors.ui.text};
+          cursor: pointer;
+        }
+        .yt-chat-overlay-settings-status {
+          font-size: ${typography.fontSize.xs};
+          color: ${colors.ui.textMuted};
+          min-height: 1em;
+          white-space: pre-line;
+        }
         .yt-chat-overlay-settings-actions {
           display: flex;
           justify-content: flex-end;
@@ -361,7 +511,7 @@ export class SettingsUi {
             min="${SETTINGS_LIMITS.maxConcurrentMessages.min}"
             max="${SETTINGS_LIMITS.maxConcurrentMessages.max}"
             step="${SETTINGS_LIMITS.maxConcurrentMessages.step}"
-            title="Performance warning threshold (not enforced)"
+            title="Performance warning threshold (not enforced). Set by Density when auto density is on."
           />
         </label>
         <label class="yt-chat-overlay-settings-field">
@@ -372,7 +522,57 @@ export class SettingsUi {
             min="${SETTINGS_LIMITS.maxMessagesPerSecond.min}"
             max="${SETTINGS_LIMITS.maxMessagesPerSecond.max}"
             step="${SETTINGS_LIMITS.maxMessagesPerSecond.step}"
-            title="Rate limit for new messages (enforced)"
+            title="Rate budget for regular chat. Super Chats, memberships, owner and moderator messages are always shown. Set by Density when auto density is on."
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Queue max age (s)</span>
+          <input
+            type="number"
+            name="queueMaxAge"
+            min="${UI_LIMITS.queueMaxAge.min}"
+            max="${UI_LIMITS.queueMaxAge.max}"
+            step="${UI_LIMITS.queueMaxAge.step}"
+            title="Regular chat still waiting after this long is skipped instead of shown late"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Auto density</span>
+          <input
+            type="checkbox"
+            name="autoDensity"
+            title="Follow chat velocity: quiet chat scrolls slower, busy chat is sampled. Replaces Max messages/s and the warning threshold."
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Density</span>
+          <input
+            type="range"
+            name="density"
+            min="${SETTINGS_LIMITS.density.min}"
+            max="${SETTINGS_LIMITS.density.max}"
+            step="${SETTINGS_LIMITS.density.step}"
+            title="Auto density target, from sparse (1) to dense (10)"
+          />
+          <output name="density-value"></output>
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Collapse repeats</span>
+          <input
+            type="checkbox"
+            name="collapseDuplicates"
+            title="Show repeated messages once with a ×N counter instead of one comment each"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Repeat window (s)</span>
+          <input
+            type="number"
+            name="collapseWindow"
+            min="${UI_LIMITS.collapseWindow.min}"
+            max="${UI_LIMITS.collapseWindow.max}"
+            step="${UI_LIMITS.collapseWindow.step}"
+            title="Repeats within this time of the previous one join its counter"
           />
         </label>
         <label class="yt-chat-overlay-settings-field">
@@ -394,6 +594,87 @@ export class SettingsUi {
             title="Minimum visible character count for regular messages"
           />
         </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Max text length</span>
+          <input
+            type="number"
+            name="maxTextLength"
+            min="${SETTINGS_LIMITS.maxTextLength.min}"
+            max="${SETTINGS_LIMITS.maxTextLength.max}"
+            step="${SETTINGS_LIMITS.maxTextLength.step}"
+            title="Length limit for chat and membership messages"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Max Super Chat length</span>
+          <input
+            type="number"
+            name="maxSuperChatTextLength"
+            min="${SETTINGS_LIMITS.maxSuperChatTextLength.min}"
+            max="${SETTINGS_LIMITS.maxSuperChatTextLength.max}"
+            step="${SETTINGS_LIMITS.maxSuperChatTextLength.step}"
+            title="Length limit for Super Chat messages"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Long messages</span>
+          <select name="longTextMode" title="How messages over the length limit are shown">
+            <option value="truncate">Cut at limit (default)</option>
+            <option value="wrap">Wrap to multiple lines</option>
+            <option value="full">Full length on one line</option>
+          </select>
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Sync replay chat</span>
+          <input
+            type="checkbox"
+            name="replaySync"
+            title="Show chat replay comments at the video time they were posted"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Sync live chat to video</span>
+          <input
+            type="checkbox"
+            name="liveDelaySync"
+            title="Delay live chat by the player's latency behind the live edge"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Live delay offset (s)</span>
+          <input
+            type="range"
+            name="liveDelayOffset"
+            min="${UI_LIMITS.liveDelayOffset.min}"
+            max="${UI_LIMITS.liveDelayOffset.max}"
+            step="${UI_LIMITS.liveDelayOffset.step}"
+            title="Positive values show chat later, negative values earlier"
+          />
+          <output name="liveDelayOffset-value"></output>
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Replay chat when rewinding</span>
+          <input
+            type="checkbox"
+            name="dvrReplay"
+            title="Show recent chat from memory when watching behind the live edge"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Show pinned message & poll</span>
+          <input
+            type="checkbox"
+            name="showChatBanners"
+            title="Show the pinned message and active poll at the top of the video"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Chat source</span>
+          <select name="chatSourceType" title="Where chat messages are read from">
+            <option value="dom">Chat panel (default)</option>
+            <option value="json">Chat data (works with panel collapsed)</option>
+          </select>
+        </label>
         <label class="yt-chat-overlay-settings-field">
           <span>Log level</span>
           <select name="logLevel" title="Console diagnostics verbosity">
@@ -430,6 +711,96 @@ export class SettingsUi {
           <span></span>
           <input type="checkbox" name="showAuthor-superChat" class="yt-chat-overlay-author-grid-checkbox" />
         </div>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Show badges</span>
+          <input
+            type="checkbox"
+            name="showAuthorBadges"
+            title="Draw member, moderator and verified badges next to shown author names"
+          />
+        </label>
+      </div>
+      <div class="yt-chat-overlay-settings-section">
+        <div class="yt-chat-overlay-settings-section-title">Membership Events</div>
+        <label class="yt-chat-overlay-settings-field">
+          <span>New members</span>
+          <input type="checkbox" name="membershipEvents-new" />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Milestones</span>
+          <input
+            type="checkbox"
+            name="membershipEvents-milestone"
+            title="Membership anniversaries (e.g. Member for 6 months)"
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Gift purchases</span>
+          <input type="checkbox" name="membershipEvents-gift" />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Gift redemptions</span>
+          <input
+            type="checkbox"
+            name="membershipEvents-redemption"
+            title="One card per viewer who received a gifted membership"
+          />
+        </label>
+      </div>
+      <div class="yt-chat-overlay-settings-section">
+        <div class="yt-chat-overlay-settings-section-title">Authors (Mute & Highlight)</div>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Click comments for actions</span>
+          <input
+            type="checkbox"
+            name="commentInteraction"
+            title="Click a flowing comment to mute or highlight its author or copy its text. Clicks on comments no longer reach the player."
+          />
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Open menu on</span>
+          <select name="commentMenuTrigger" title="Hover opens the menu after resting the pointer on a comment and closes it when the pointer leaves">
+            <option value="click">Click (default)</option>
+            <option value="hover">Hover</option>
+          </select>
+        </label>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Highlight color</span>
+          <input type="color" name="highlightColor" />
+        </label>
+        <textarea
+          name="highlightedAuthors"
+          spellcheck="false"
+          aria-label="Highlighted authors"
+          placeholder="Highlighted authors: channel ID (UC...) or name, one per line"
+        ></textarea>
+        <textarea
+          name="mutedAuthors"
+          spellcheck="false"
+          aria-label="Muted authors"
+          placeholder="Muted authors: channel ID (UC...) or name, one per line"
+        ></textarea>
+      </div>
+      <div class="yt-chat-overlay-settings-section">
+        <div class="yt-chat-overlay-settings-section-title">Mute Rules</div>
+        <div class="yt-chat-overlay-mute-rules" data-list="muteRules"></div>
+        <div class="yt-chat-overlay-settings-file">
+          <button
+            type="button"
+            data-action="add-mute-rule"
+            title="Hide, mask or dim messages by keyword or regular expression"
+          >
+            Add rule
+          </button>
+        </div>
+      </div>
+      <div class="yt-chat-overlay-settings-section">
+        <div class="yt-chat-overlay-settings-section-title">Currency Rates (per 1 USD)</div>
+        <textarea
+          name="currencyRates"
+          spellcheck="false"
+          title="One currency per line, e.g. JPY 150. Used to compare Super Chats across currencies."
+        ></textarea>
       </div>
       <div class="yt-chat-overlay-settings-section">
         <div class="yt-chat-overlay-settings-section-title">Outline</div>
@@ -468,6 +839,46 @@ export class SettingsUi {
           />
         </label>
       </div>
+      <div class="yt-chat-overlay-settings-section">
+        <div class="yt-chat-overlay-settings-section-title">Comment File (Niconico / Bilibili XML)</div>
+        <div class="yt-chat-overlay-settings-file">
+          <input
+            type="file"
+            name="danmakuFile"
+            accept=".xml,text/xml,application/xml"
+            title="Play a local comment file over this video (read locally, never uploaded)"
+          />
+          <button type="button" data-action="clear-danmaku">Clear</button>
+        </div>
+        <div class="yt-chat-overlay-settings-status" data-status="danmaku" role="status"></div>
+      </div>
+      <div class="yt-chat-overlay-settings-section">
+        <div class="yt-chat-overlay-settings-section-title">Subtitle Export (ASS)</div>
+        <label class="yt-chat-overlay-settings-field">
+          <span>Record session</span>
+          <input
+            type="checkbox"
+            name="recordSession"
+            title="Keep rendered comments in memory for export (cleared on navigation)"
+          />
+        </label>
+        <div class="yt-chat-overlay-settings-file">
+          <button type="button" data-action="export-ass">Export ASS</button>
+        </div>
+        <div class="yt-chat-overlay-settings-status" data-status="export" role="status"></div>
+      </div>
+      <div class="yt-chat-overlay-settings-section">
+        <div class="yt-chat-overlay-settings-section-title">Selector Overrides (Advanced)</div>
+        <textarea
+          name="selectorOverrides"
+          spellcheck="false"
+          title="One override per line, e.g. chatItemList: #items. Tried before the built-in selectors; use after a YouTube layout change."
+        ></textarea>
+        <div class="yt-chat-overlay-settings-file">
+          <button type="button" data-action="test-selectors">Test selectors</button>
+        </div>
+        <div class="yt-chat-overlay-settings-status" data-status="selectors" role="status"></div>
+      </div>
       <div class="yt-chat-overlay-settings-actions">
         <button type="button" data-action="reset">Reset</button>
         <button type="button" data-action="apply">Apply</button>
@@ -477,12 +888,33 @@ export class SettingsUi {
     this.modal
       .querySelector<HTMLButtonElement>('.yt-chat-overlay-settings-close')
       ?.addEventListener('click', () => this.close());
+    this.getInput('liveDelayOffset')?.addEventListener('input', () =>
+      this.updateRangeOutput('liveDelayOffset', formatOffsetSeconds)
+    );
+    this.getInput('density')?.addEventListener('input', () =>
+      this.updateRangeOutput('density', formatDensity)
+    );
     this.modal
       .querySelector<HTMLButtonElement>('button[data-action="apply"]')
       ?.addEventListener('click', () => this.apply());
     this.modal
       .querySelector<HTMLButtonElement>('button[data-action="reset"]')
       ?.addEventListener('click', () => this.handleReset());
+    this.getInput('danmakuFile')?.addEventListener('change', () => {
+      void this.handleDanmakuImport();
+    });
+    this.modal
+      .querySelector<HTMLButtonElement>('button[data-action="clear-danmaku"]')
+      ?.addEventListener('click', () => this.handleDanmakuClear());
+    this.modal
+      .querySelector<HTMLButtonElement>('button[data-action="export-ass"]')
+      ?.addEventListener('click', () => this.handleAssExport());
+    this.modal
+      .querySelector<HTMLButtonElement>('button[data-action="add-mute-rule"]')
+      ?.addEventListener('click', () => this.handleAddMuteRule());
+    this.modal
+      .querySelector<HTMLButtonElement>('button[data-action="test-selectors"]')
+      ?.addEventListener('click', () => this.handleSelectorTest());
 
     this.backdrop.appendChild(this.modal);
     document.body.appendChild(this.backdrop);
@@ -514,6 +946,225 @@ export class SettingsUi {
     this.populateForm(this.getSettings());
   }
 
+  private async handleDanmakuImport(): Promise<void> {
+    const input = this.getInput('danmakuFile');
+    const file = input?.files?.[0];
+    if (!input || !file) return;
+
+    this.setStatus('danmaku', `Loading ${file.name}...`);
+    try {
+      const count = await this.actions.importDanmaku(file);
+      this.setStatus('danmaku', `Playing ${count} comments from ${file.name}`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.setStatus('danmaku', `Import failed: ${reason}`);
+      console.warn('[SettingsUi] Comment file import failed:', error);
+    } finally {
+      input.value = '';
+    }
+  }
+
+  private handleDanmakuClear(): void {
+    this.actions.clearDanmaku();
+    this.setStatus('danmaku', '');
+  }
+
+  private handleAssExport(): void {
+    try {
+      const count = this.actions.exportAss();
+      this.setStatus(
+        'export',
+        count > 0 ? `Exported ${count} comments` : 'Nothing recorded yet (enable Record session)'
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.setStatus('export', `Export failed: ${reason}`);
+      console.warn('[SettingsUi] ASS export failed:', error);
+    }
+  }
+
+  private handleAddMuteRule(): void {
+    const list = this.getMuteRuleList();
+    if (!list) return;
+
+    const row = this.createMuteRuleRow({
+      id: createMuteRuleId(),
+      pattern: '',
+      regex: false,
+      scope: 'text',
+      action: 'hide',
+    });
+    list.appendChild(row);
+    row.querySelector<HTMLInputElement>('input[type="text"]')?.focus();
+  }
+
+  private getMuteRuleList(): HTMLElement | null {
+    return this.modal?.querySelector<HTMLElement>('[data-list="muteRules"]') ?? null;
+  }
+
+  /**
+   * Build an editable rule row (values are set as properties, never as markup)
+   */
+  private createMuteRuleRow(rule: MuteRule): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = 'yt-chat-overlay-mute-rule';
+    row.dataset.ruleId = rule.id;
+
+    const pattern = document.createElement('input');
+    pattern.type = 'text';
+    pattern.name = 'muteRule-pattern';
+    pattern.value = rule.pattern;
+    pattern.placeholder = 'Keyword or regular expression';
+    pattern.spellcheck = false;
+    pattern.setAttribute('aria-label', 'Pattern');
+
+    const regexLabel = document.createElement('label');
+    const regex = document.createElement('input');
+    regex.type = 'checkbox';
+    regex.name = 'muteRule-regex';
+    regex.checked = rule.regex;
+    regexLabel.append(regex, 'Regex');
+
+    const scope = this.createRuleSelect('muteRule-scope', MUTE_RULE_SCOPES, rule.scope, 'Match');
+    const action = this.createRuleSelect(
+      'muteRule-action',
+      MUTE_RULE_ACTIONS,
+      rule.action,
+      'Action'
+    );
+
+    const exemptLabel = document.createElement('label');
+    exemptLabel.title = 'Members of at least this many months are not affected (empty: everyone)';
+    const exempt = document.createElement('input');
+    exempt.type = 'number';
+    exempt.name = 'muteRule-exemptMonths';
+    exempt.min = String(SETTINGS_LIMITS.exemptMemberMonths.min);
+    exempt.max = String(SETTINGS_LIMITS.exemptMemberMonths.max);
+    exempt.step = String(SETTINGS_LIMITS.exemptMemberMonths.step);
+    exempt.value = rule.exemptMemberMonths !== undefined ? String(rule.exemptMemberMonths) : '';
+    exempt.placeholder = '—';
+    exemptLabel.append('Members exempt from', exempt, 'months');
+
+    const hits = document.createElement('span');
+    hits.className = 'yt-chat-overlay-mute-rule-hits';
+
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.dataset.action = 'remove-mute-rule';
+    remove.textContent = '×';
+    remove.title = 'Remove rule';
+    remove.addEventListener('click', () => row.remove());
+
+    const updateHits = () => this.updateMuteRuleHits(row, hits);
+    pattern.addEventListener('input', updateHits);
+    regex.addEventListener('change', updateHits);
+
+    row.append(pattern, regexLabel, scope, action, exemptLabel, hits, remove);
+    updateHits();
+    return row;
+  }
+
+  private createRuleSelect(
+    name: string,
+    options: ReadonlyArray<[string, string]>,
+    value: string,
+    label: string
+  ): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.name = name;
+    select.setAttribute('aria-label', label);
+    for (const [optionValue, optionLabel] of options) {
+      select.add(new Option(optionLabel, optionValue));
+    }
+    select.value = value;
+    return select;
+  }
+
+  /**
+   * Show a row's hit count, or flag a pattern that cannot be used
+   */
+  private updateMuteRuleHits(row: HTMLDivElement, hits: HTMLSpanElement): void {
+    const rule = this.readMuteRuleRow(row);
+    if (rule && !rule.pattern) {
+      hits.textContent = '';
+    } else if (!rule || !compileMuteRule(rule)) {
+      hits.textContent = 'Invalid pattern';
+    } else {
+      const count = this.actions.getMuteRuleHits().get(rule.id) ?? 0;
+      hits.textContent = `${count} ${count === 1 ? 'hit' : 'hits'}`;
+    }
+  }
+
+  private readMuteRuleRow(row: HTMLElement): MuteRule | null {
+    const id = row.dataset.ruleId;
+    const pattern = row.querySelector<HTMLInputElement>('input[name="muteRule-pattern"]');
+    const regex = row.querySelector<HTMLInputElement>('input[name="muteRule-regex"]');
+    const scope = row.querySelector<HTMLSelectElement>('select[name="muteRule-scope"]')?.value;
+    const action = row.querySelector<HTMLSelectElement>('select[name="muteRule-action"]')?.value;
+    const validScope = MUTE_RULE_SCOPES.find(([value]) => value === scope)?.[0];
+    const validAction = MUTE_RULE_ACTIONS.find(([value]) => value === action)?.[0];
+    if (!id || !pattern || !regex || !validScope || !validAction) return null;
+
+    const rule: MuteRule = {
+      id,
+      pattern: pattern.value.trim(),
+      regex: regex.checked,
+      scope: validScope,
+      action: validAction,
+    };
+
+    const exemptMonths = Number.parseInt(
+      row.querySelector<HTMLInputElement>('input[name="muteRule-exemptMonths"]')?.value ?? '',
+      10
+    );
+    if (Number.isFinite(exemptMonths)) {
+      rule.exemptMemberMonths = Math.min(
+        SETTINGS_LIMITS.exemptMemberMonths.max,
+        Math.max(SETTINGS_LIMITS.exemptMemberMonths.min, exemptMonths)
+      );
+    }
+    return rule;
+  }
+
+  private setMuteRules(rules: readonly MuteRule[]): void {
+    const list = this.getMuteRuleList();
+    if (!list) return;
+    list.replaceChildren(...rules.map((rule) => this.createMuteRuleRow(rule)));
+  }
+
+  private getMuteRules(fallback: OverlaySettings['muteRules']): OverlaySettings['muteRules'] {
+    const list = this.getMuteRuleList();
+    if (!list) return fallback;
+
+    // Rows left empty are dropped; invalid patterns are kept so they can be fixed
+    return Array.from(list.querySelectorAll<HTMLElement>('.yt-chat-overlay-mute-rule'))
+      .map((row) => this.readMuteRuleRow(row))
+      .filter((rule): rule is MuteRule => rule !== null && rule.pattern !== '');
+  }
+
+  private handleSelectorTest(): void {
+    const results = testSelectors(
+      parseSelectorOverrides(this.getTextArea('selectorOverrides')?.value ?? '')
+    );
+    this.setStatus(
+      'selectors',
+      results
+        .map(({ group, selector, overridden }) =>
+          selector
+            ? `${group}: ${selector}${overridden ? ' (override)' : ''}`
+            : `${group}: no match`
+        )
+        .join('\n')
+    );
+  }
+
+  private setStatus(name: string, text: string): void {
+    const status = this.modal?.querySelector<HTMLElement>(`[data-status="${name}"]`);
+    if (status) {
+      status.textContent = text;
+    }
+  }
+
   private populateForm(settings: OverlaySettings): void {
     this.setCheckbox('enabled', settings.enabled);
     this.setValue('speedPxPerSec', settings.speedPxPerSec);
@@ -524,8 +1175,25 @@ export class SettingsUi {
     this.setValue('safeBottom', (settings.safeBottom * 100).toFixed(1));
     this.setValue('maxConcurrentMessages', settings.maxConcurrentMessages);
     this.setValue('maxMessagesPerSecond', settings.maxMessagesPerSecond);
+    this.setValue('queueMaxAge', toSeconds(settings.queueMaxAgeMs));
+    this.setCheckbox('collapseDuplicates', settings.collapseDuplicates);
+    this.setValue('collapseWindow', toSeconds(settings.collapseWindowMs));
+    this.setCheckbox('autoDensity', settings.autoDensity);
+    this.setValue('density', settings.density);
+    this.updateRangeOutput('density', formatDensity);
     this.setCheckbox('allowShortTextMessages', settings.allowShortTextMessages);
     this.setValue('minTextLength', settings.minTextLength);
+    this.setValue('maxTextLength', settings.maxTextLength);
+    this.setValue('maxSuperChatTextLength', settings.maxSuperChatTextLength);
+    this.setSelect('longTextMode', settings.longTextMode);
+    this.setCheckbox('replaySync', settings.replaySync);
+    this.setCheckbox('liveDelaySync', settings.liveDelaySync);
+    this.setValue('liveDelayOffset', toSeconds(settings.liveDelayOffsetMs));
+    this.updateRangeOutput('liveDelayOffset', formatOffsetSeconds);
+    this.setCheckbox('dvrReplay', settings.dvrReplay);
+    this.setCheckbox('showChatBanners', settings.showChatBanners);
+    this.setCheckbox('recordSession', settings.recordSession);
+    this.setSelect('chatSourceType', settings.chatSourceType);
     this.setSelect('logLevel', settings.logLevel);
 
     this.setValue('color-normal', settings.colors.normal);
@@ -540,6 +1208,21 @@ export class SettingsUi {
     this.setCheckbox('showAuthor-owner', settings.showAuthor.owner);
     this.setCheckbox('showAuthor-verified', settings.showAuthor.verified);
     this.setCheckbox('showAuthor-superChat', settings.showAuthor.superChat);
+    this.setCheckbox('showAuthorBadges', settings.showAuthorBadges);
+
+    this.setCheckbox('membershipEvents-new', settings.membershipEvents.new);
+    this.setCheckbox('membershipEvents-milestone', settings.membershipEvents.milestone);
+    this.setCheckbox('membershipEvents-gift', settings.membershipEvents.gift);
+    this.setCheckbox('membershipEvents-redemption', settings.membershipEvents.redemption);
+    this.setCheckbox('commentInteraction', settings.commentInteraction);
+    this.setSelect('commentMenuTrigger', settings.commentMenuTrigger);
+    this.setValue('highlightColor', settings.highlightColor);
+    this.setTextArea('highlightedAuthors', formatAuthorList(settings.highlightedAuthors));
+    this.setTextArea('mutedAuthors', formatAuthorList(settings.mutedAuthors));
+    this.setMuteRules(settings.muteRules);
+    this.setTextArea('currencyRates', formatCurrencyRates(settings.currencyRates));
+    this.setTextArea('selectorOverrides', formatSelectorOverrides(settings.selectorOverrides));
+    this.setStatus('selectors', '');
 
     this.setCheckbox('outline-enabled', settings.outline.enabled);
     this.setValue('outline-widthPx', settings.outline.widthPx);
@@ -606,6 +1289,29 @@ export class SettingsUi {
           SETTINGS_LIMITS.maxMessagesPerSecond.max
         )
       ),
+      queueMaxAgeMs: Math.round(
+        clamp(
+          readNumber('queueMaxAge', toSeconds(current.queueMaxAgeMs)),
+          UI_LIMITS.queueMaxAge.min,
+          UI_LIMITS.queueMaxAge.max
+        ) * 1000
+      ),
+      collapseDuplicates: this.getCheckbox('collapseDuplicates', current.collapseDuplicates),
+      collapseWindowMs: Math.round(
+        clamp(
+          readNumber('collapseWindow', toSeconds(current.collapseWindowMs)),
+          UI_LIMITS.collapseWindow.min,
+          UI_LIMITS.collapseWindow.max
+        ) * 1000
+      ),
+      autoDensity: this.getCheckbox('autoDensity', current.autoDensity),
+      density: Math.round(
+        clamp(
+          readNumber('density', current.density),
+          SETTINGS_LIMITS.density.min,
+          SETTINGS_LIMITS.density.max
+        )
+      ),
       allowShortTextMessages: this.getCheckbox(
         'allowShortTextMessages',
         current.allowShortTextMessages
@@ -617,6 +1323,34 @@ export class SettingsUi {
           SETTINGS_LIMITS.minTextLength.max
         )
       ),
+      maxTextLength: Math.round(
+        clamp(
+          readNumber('maxTextLength', current.maxTextLength),
+          SETTINGS_LIMITS.maxTextLength.min,
+          SETTINGS_LIMITS.maxTextLength.max
+        )
+      ),
+      maxSuperChatTextLength: Math.round(
+        clamp(
+          readNumber('maxSuperChatTextLength', current.maxSuperChatTextLength),
+          SETTINGS_LIMITS.maxSuperChatTextLength.min,
+          SETTINGS_LIMITS.maxSuperChatTextLength.max
+        )
+      ),
+      longTextMode: this.getLongTextMode('longTextMode', current.longTextMode),
+      replaySync: this.getCheckbox('replaySync', current.replaySync),
+      liveDelaySync: this.getCheckbox('liveDelaySync', current.liveDelaySync),
+      liveDelayOffsetMs: Math.round(
+        clamp(
+          readNumber('liveDelayOffset', toSeconds(current.liveDelayOffsetMs)),
+          UI_LIMITS.liveDelayOffset.min,
+          UI_LIMITS.liveDelayOffset.max
+        ) * 1000
+      ),
+      dvrReplay: this.getCheckbox('dvrReplay', current.dvrReplay),
+      showChatBanners: this.getCheckbox('showChatBanners', current.showChatBanners),
+      recordSession: this.getCheckbox('recordSession', current.recordSession),
+      chatSourceType: this.getChatSourceType('chatSourceType', current.chatSourceType),
       logLevel: this.getLogLevel('logLevel', current.logLevel),
       showAuthor: {
         normal: this.getCheckbox('showAuthor-normal', current.showAuthor.normal),
@@ -626,6 +1360,30 @@ export class SettingsUi {
         verified: this.getCheckbox('showAuthor-verified', current.showAuthor.verified),
         superChat: this.getCheckbox('showAuthor-superChat', current.showAuthor.superChat),
       },
+      showAuthorBadges: this.getCheckbox('showAuthorBadges', current.showAuthorBadges),
+      membershipEvents: {
+        new: this.getCheckbox('membershipEvents-new', current.membershipEvents.new),
+        milestone: this.getCheckbox(
+          'membershipEvents-milestone',
+          current.membershipEvents.milestone
+        ),
+        gift: this.getCheckbox('membershipEvents-gift', current.membershipEvents.gift),
+        redemption: this.getCheckbox(
+          'membershipEvents-redemption',
+          current.membershipEvents.redemption
+        ),
+      },
+      commentInteraction: this.getCheckbox('commentInteraction', current.commentInteraction),
+      commentMenuTrigger: this.getCommentMenuTrigger(
+        'commentMenuTrigger',
+        current.commentMenuTrigger
+      ),
+      highlightColor: this.getColor('highlightColor', current.highlightColor),
+      highlightedAuthors: this.getAuthorList('highlightedAuthors', current.highlightedAuthors),
+      mutedAuthors: this.getAuthorList('mutedAuthors', current.mutedAuthors),
+      muteRules: this.getMuteRules(current.muteRules),
+      currencyRates: this.getCurrencyRates('currencyRates', current.currencyRates),
+      selectorOverrides: this.getSelectorOverrides('selectorOverrides', current.selectorOverrides),
       colors: {
         normal: this.getColor('color-normal', current.colors.normal),
         member: this.getColor('color-member', current.colors.member),
@@ -725,6 +1483,39 @@ export class SettingsUi {
     return this.modal?.querySelector<HTMLSelectElement>(`select[name="${name}"]`) ?? null;
   }
 
+  private getTextArea(name: string): HTMLTextAreaElement | null {
+    return this.modal?.querySelector<HTMLTextAreaElement>(`textarea[name="${name}"]`) ?? null;
+  }
+
+  private getCurrencyRates(
+    name: string,
+    fallback: OverlaySettings['currencyRates']
+  ): OverlaySettings['currencyRates'] {
+    const textArea = this.getTextArea(name);
+    if (!textArea) return fallback;
+
+    // An empty or unreadable table keeps the previous rates
+    const rates = parseCurrencyRates(textArea.value);
+    return Object.keys(rates).length > 0 ? rates : fallback;
+  }
+
+  private getSelectorOverrides(
+    name: string,
+    fallback: OverlaySettings['selectorOverrides']
+  ): OverlaySettings['selectorOverrides'] {
+    const textArea = this.getTextArea(name);
+    // An empty list clears all overrides
+    return textArea ? parseSelectorOverrides(textArea.value) : fallback;
+  }
+
+  private getAuthorList(
+    name: string,
+    fallback: OverlaySettings['mutedAuthors']
+  ): OverlaySettings['mutedAuthors'] {
+    const textArea = this.getTextArea(name);
+    return textArea ? parseAuthorList(textArea.value) : fallback;
+  }
+
   private getCheckbox(name: string, fallback: boolean): boolean {
     const input = this.getInput(name);
     return input ? input.checked : fallback;
@@ -749,6 +1540,48 @@ export class SettingsUi {
     return fallback;
   }
 
+  private getChatSourceType(
+    name: string,
+    fallback: OverlaySettings['chatSourceType']
+  ): OverlaySettings['chatSourceType'] {
+    const select = this.getSelect(name);
+    if (!select) return fallback;
+
+    if (select.value === 'dom' || select.value === 'json') {
+      return select.value;
+    }
+
+    return fallback;
+  }
+
+  private getLongTextMode(
+    name: string,
+    fallback: OverlaySettings['longTextMode']
+  ): OverlaySettings['longTextMode'] {
+    const select = this.getSelect(name);
+    if (!select) return fallback;
+
+    if (select.value === 'truncate' || select.value === 'wrap' || select.value === 'full') {
+      return select.value;
+    }
+
+    return fallback;
+  }
+
+  private getCommentMenuTrigger(
+    name: string,
+    fallback: OverlaySettings['commentMenuTrigger']
+  ): OverlaySettings['commentMenuTrigger'] {
+    const select = this.getSelect(name);
+    if (!select) return fallback;
+
+    if (select.value === 'click' || select.value === 'hover') {
+      return select.value;
+    }
+
+    return fallback;
+  }
+
   private setValue(name: string, value: string | number): void {
     const input = this.getInput(name);
     if (input) {
@@ -756,6 +1589,15 @@ export class SettingsUi {
     }
   }
 
+  private updateRangeOutput(name: string, format: (value: number) => string): void {
+    const input = this.getInput(name);
+    const output = this.modal?.querySelector<HTMLOutputElement>(`output[name="${name}-value"]`);
+    if (!input || !output) return;
+
+    const value = Number.parseFloat(input.value);
+    output.value = Number.isFinite(value) ? format(value) : '';
+  }
+
   private setCheckbox(name: string, value: boolean): void {
     const input = this.getInput(name);
     if (input) {
@@ -763,6 +1605,13 @@ export class SettingsUi {
     }
   }
 
+  private setTextArea(name: string, value: string): void {
+    const textArea = this.getTextArea(name);
+    if (textArea) {
+      textArea.value = value;
+    }
+  }
+
   private setSelect(name: string, value: string): void {
     const select = this.getSelect(name);
     if (select) {
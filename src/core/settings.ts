@@ -9,6 +9,21 @@ import { DEFAULT_SETTINGS, type OverlaySettings } from '@app-types';
 
 const STORAGE_KEY = 'yt-live-chat-overlay-settings';
 
+/**
+ * Keep only positive finite rates from a stored rate table
+ * A saved table is used as-is (currencies the user removed stay removed);
+ * the defaults only apply until one is saved.
+ */
+const readCurrencyRates = (value: unknown): Record<string, number> => {
+  if (typeof value !== 'object' || value === null) return { ...DEFAULT_SETTINGS.currencyRates };
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === 'number' && Number.isFinite(entry[1]) && entry[1] > 0
+    )
+  );
+};
+
 export class Settings {
   private settings: OverlaySettings;
 
@@ -44,6 +59,11 @@ export class Settings {
             ...DEFAULT_SETTINGS.outline,
             ...(parsed.outline || {}),
           },
+          membershipEvents: {
+            ...DEFAULT_SETTINGS.membershipEvents,
+            ...(parsed.membershipEvents || {}),
+          },
+          currencyRates: readCurrencyRates(parsed.currencyRates),
         };
       }
     } catch (error) {
@@ -83,6 +103,9 @@ export class Settings {
       outline: partial.outline
         ? { ...this.settings.outline, ...partial.outline }
         : this.settings.outline,
+      membershipEvents: partial.membershipEvents
+        ? { ...this.settings.membershipEvents, ...partial.membershipEvents }
+        : this.settings.membershipEvents,
     };
     this.saveSettings();
   }
@@ -6,6 +6,7 @@
  */
 
 import { findElementMatch, waitForElementMatch } from '@core/dom';
+import { getSelectors } from '@core/selectors';
 
 /**
  * Callbacks for video state changes
@@ -14,24 +15,10 @@ interface VideoSyncCallbacks {
   onPause?: () => void;
   onPlay?: () => void;
   onSeeking?: () => void;
+  onSeeked?: (currentTimeMs: number) => void;
   onRateChange?: (rate: number) => void;
 }
 
-/**
- * Video element selectors (in priority order)
- */
-const VIDEO_SELECTORS = [
-  '#movie_player video',
-  '.html5-video-player video',
-  'video.html5-main-video',
-  'video[src]',
-] as const;
-
-/**
- * Player container selectors for MutationObserver
- */
-const PLAYER_CONTAINER_SELECTORS = '#movie_player, .html5-video-player';
-
 /**
  * Configuration constants
  */
@@ -64,6 +51,7 @@ export class VideoSync {
     pause: () => this.handlePause(),
     play: () => this.handlePlay(),
     seeking: () => this.handleSeeking(),
+    seeked: () => this.handleSeeked(),
     ratechange: () => this.handleRateChange(),
   };
 
@@ -94,7 +82,7 @@ export class VideoSync {
    * Retries multiple times to handle slow page loads
    */
   private async detectVideoElement(): Promise<HTMLVideoElement | null> {
-    const match = await waitForElementMatch<HTMLVideoElement>(VIDEO_SELECTORS, {
+    const match = await waitForElementMatch<HTMLVideoElement>(getSelectors('video'), {
       attempts: CONFIG.DETECTION_ATTEMPTS,
       intervalMs: CONFIG.DETECTION_INTERVAL_MS,
       predicate: this.isVideoReady,
@@ -146,7 +134,7 @@ export class VideoSync {
         return;
       }
 
-      const match = findElementMatch<HTMLVideoElement>(VIDEO_SELECTORS, {
+      const match = findElementMatch<HTMLVideoElement>(getSelectors('video'), {
         predicate: this.isVideoReady,
       });
 
@@ -180,6 +168,7 @@ export class VideoSync {
     this.videoElement.addEventListener('pause', this.boundHandlers.pause);
     this.videoElement.addEventListener('play', this.boundHandlers.play);
     this.videoElement.addEventListener('seeking', this.boundHandlers.seeking);
+    this.videoElement.addEventListener('seeked', this.boundHandlers.seeked);
     this.videoElement.addEventListener('ratechange', this.boundHandlers.ratechange);
 
     console.log('[VideoSync] Event listeners attached');
@@ -194,6 +183,7 @@ export class VideoSync {
     this.videoElement.removeEventListener('pause', this.boundHandlers.pause);
     this.videoElement.removeEventListener('play', this.boundHandlers.play);
     this.videoElement.removeEventListener('seeking', this.boundHandlers.seeking);
+    this.videoElement.removeEventListener('seeked', this.boundHandlers.seeked);
     this.videoElement.removeEventListener('ratechange', this.boundHandlers.ratechange);
 
     console.log('[VideoSync] Event listeners detached');
@@ -206,7 +196,7 @@ export class VideoSync {
   private observeVideoReplacement(): void {
     if (!this.videoElement) return;
 
-    const playerContainer = document.querySelector(PLAYER_CONTAINER_SELECTORS);
+    const playerContainer = findElementMatch<HTMLElement>(getSelectors('playerContainer'))?.element;
     if (!playerContainer) {
       console.warn('[VideoSync] Player container not found, cannot observe video replacement');
       return;
@@ -281,6 +271,12 @@ export class VideoSync {
     this.callbacks.onSeeking?.();
   }
 
+  private handleSeeked(): void {
+    const currentTimeMs = this.getCurrentTimeMs() ?? 0;
+    console.log('[VideoSync] Video seeked to', Math.round(currentTimeMs / 1000), 's');
+    this.callbacks.onSeeked?.(currentTimeMs);
+  }
+
   private handleRateChange(): void {
     const rate = this.videoElement?.playbackRate ?? 1.0;
     console.log('[VideoSync] Playback rate changed:', rate);
@@ -307,6 +303,41 @@ export class VideoSync {
     return this.videoElement?.playbackRate ?? 1.0;
   }
 
+  /**
+   * Get current playback position
+   * @returns video currentTime in milliseconds, or null if no video
+   */
+  getCurrentTimeMs(): number | null {
+    if (!this.videoElement) return null;
+    const currentTime = this.videoElement.currentTime;
+    return Number.isFinite(currentTime) ? currentTime * 1000 : null;
+  }
+
+  /**
+   * Estimate how far playback is behind the live edge
+   * Uses the end of the seekable range (live edge) minus currentTime.
+   * @returns latency in milliseconds, or null if no video or not a live stream
+   */
+  getLiveLatencyMs(): number | null {
+    const liveEdgeMs = this.getLiveEdgeMs();
+    const currentTimeMs = this.getCurrentTimeMs();
+    if (liveEdgeMs === null || currentTimeMs === null) return null;
+
+    return Math.max(0, liveEdgeMs - currentTimeMs);
+  }
+
+  /**
+   * Get the live edge position (end of the seekable range)
+   * @returns live edge in milliseconds of video time, or null if unavailable
+   */
+  getLiveEdgeMs(): number | null {
+    const video = this.videoElement;
+    if (!video || video.seekable.length === 0) return null;
+
+    const liveEdgeMs = video.seekable.end(video.seekable.length - 1) * 1000;
+    return Number.isFinite(liveEdgeMs) ? liveEdgeMs : null;
+  }
+
   /**
    * Check if video sync is initialized
    */
@@ -0,0 +1,229 @@
+/**
+ * Video Timeline
+ *
+ * Holds messages keyed by video time and releases them when the video's
+ * currentTime reaches their offset. Because scheduling follows currentTime
+ * (not wall-clock), buffering stalls, pauses and playback-rate changes keep
+ * comments aligned with the picture automatically.
+ */
+
+import type { ChatMessage } from '@app-types';
+
+export type TimelineEmitCallback = (message: ChatMessage) => void;
+
+/**
+ * Configuration constants
+ */
+const CONFIG = {
+  /** Clock polling interval (ms) */
+  TICK_INTERVAL_MS: 100,
+  /** Default maximum number of messages retained on the timeline */
+  MAX_ENTRIES: 2000,
+  /**
+   * Messages that arrive after their offset already passed are still shown
+   * when they are at most this late (replay chat is inserted in batches).
+   */
+  LATE_TOLERANCE_MS: 5000,
+  /** A forward jump larger than this is treated as a discontinuity, not playback */
+  MAX_CATCHUP_MS: 3000,
+  /** After a seek, messages posted this long before the new position are replayed */
+  REPOPULATE_WINDOW_MS: 3000,
+} as const;
+
+interface TimelineEntry {
+  offsetMs: number;
+  message: ChatMessage;
+}
+
+/**
+ * VideoTimeline class
+ *
+ * Entries are kept sorted by offset so each tick only walks the slice
+ * between the previous and current playback position.
+ */
+export class VideoTimeline {
+  private entries: TimelineEntry[] = [];
+  private cursorMs: number | null = null;
+  /** Between seeking and seeked: the playhead is in flux, nothing is released */
+  private seeking = false;
+  private tickTimer: number | null = null;
+  private getCurrentTimeMs: (() => number | null) | null = null;
+  private emit: TimelineEmitCallback | null = null;
+
+  constructor(private readonly maxEntries: number = CONFIG.MAX_ENTRIES) {}
+
+  /**
+   * Start releasing messages against the given clock
+   */
+  start(getCurrentTimeMs: () => number | null, emit: TimelineEmitCallback): void {
+    this.stop();
+    this.getCurrentTimeMs = getCurrentTimeMs;
+    this.emit = emit;
+    this.cursorMs = getCurrentTimeMs();
+
+    this.tickTimer = window.setInterval(() => {
+      this.tick();
+    }, CONFIG.TICK_INTERVAL_MS);
+
+    console.log('[VideoTimeline] Started');
+  }
+
+  /**
+   * Add a message with a video offset to the timeline
+   */
+  add(message: ChatMessage): void {
+    const offsetMs = message.videoOffsetMs;
+    if (offsetMs === undefined || !Number.isFinite(offsetMs)) return;
+
+    // Late arrival: the playhead already passed this offset
+    const cursorMs = this.cursorMs;
+    if (
+      !this.seeking &&
+      cursorMs !== null &&
+      offsetMs <= cursorMs &&
+      cursorMs - offsetMs <= CONFIG.LATE_TOLERANCE_MS
+    ) {
+      this.emit?.(message);
+    }
+
+    this.insert({ offsetMs, message });
+  }
+
+  /**
+   * Drop a message by chat item ID (deleted or retracted)
+   */
+  remove(messageId: string): void {
+    this.entries = this.entries.filter((entry) => entry.message.id !== messageId);
+  }
+
+  /**
+   * Check if the clock is running
+   */
+  isRunning(): boolean {
+    return this.tickTimer !== null;
+  }
+
+  /**
+   * Number of messages currently held
+   */
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Insert entry keeping offset order (appends are the common case)
+   */
+  private insert(entry: TimelineEntry): void {
+    this.entries.splice(this.upperBound(entry.offsetMs), 0, entry);
+
+    // Oldest entries are evicted first, so the timeline behaves as a ring buffer
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  /**
+   * Find index of the first entry with offset strictly greater than timeMs
+   */
+  private upperBound(timeMs: number): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const current = this.entries[mid];
+      if (current && current.offsetMs <= timeMs) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Release messages between the previous and current playhead
+   */
+  private tick(): void {
+    if (!this.getCurrentTimeMs || !this.emit || this.seeking) return;
+
+    const nowMs = this.getCurrentTimeMs();
+    if (nowMs === null) return;
+
+    const previousMs = this.cursorMs;
+    this.cursorMs = nowMs;
+
+    if (previousMs === null || nowMs <= previousMs) {
+      return;
+    }
+
+    // Discontinuity (e.g. the clock became available mid-video): skip backlog
+    if (nowMs - previousMs > CONFIG.MAX_CATCHUP_MS) {
+      return;
+    }
+
+    const startIndex = this.upperBound(previousMs);
+    const endIndex = this.upperBound(nowMs);
+    for (let i = startIndex; i < endIndex; i++) {
+      const entry = this.entries[i];
+      if (entry) {
+        this.emit(entry.message);
+      }
+    }
+  }
+
+  /**
+   * Hold releases while the video seeks
+   * A tick between seeking and seeked would release the range up to the new
+   * position, which seek() then repopulates again.
+   */
+  beginSeek(): void {
+    this.seeking = true;
+  }
+
+  /**
+   * Move the playhead after a seek
+   * Re-emits messages that belong just before the new position so the
+   * overlay is repopulated instead of staying empty until new offsets pass.
+   */
+  seek(timeMs: number): void {
+    this.seeking = false;
+    this.cursorMs = timeMs;
+    if (!this.emit) return;
+
+    const startIndex = this.upperBound(timeMs - CONFIG.REPOPULATE_WINDOW_MS);
+    const endIndex = this.upperBound(timeMs);
+    for (let i = startIndex; i < endIndex; i++) {
+      const entry = this.entries[i];
+      if (entry) {
+        this.emit(entry.message);
+      }
+    }
+
+    console.log(
+      `[VideoTimeline] Seeked to ${Math.round(timeMs / 1000)}s, repopulated ${endIndex - startIndex} messages`
+    );
+  }
+
+  /**
+   * Stop the clock (entries are kept)
+   */
+  stop(): void {
+    if (this.tickTimer !== null) {
+      window.clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.getCurrentTimeMs = null;
+    this.emit = null;
+    this.cursorMs = null;
+    this.seeking = false;
+  }
+
+  /**
+   * Stop and drop all entries
+   */
+  destroy(): void {
+    this.stop();
+    this.entries = [];
+    console.log('[VideoTimeline] Destroyed');
+  }
+}
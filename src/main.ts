@@ -5,16 +5,42 @@
  * Displays YouTube live chat messages in Nico-nico style flowing overlay.
  */
 
-import { DEFAULT_SETTINGS, type OverlaySettings } from '@app-types';
+import {
+  type AuthorRef,
+  type ChatBanner,
+  type ChatMessage,
+  DEFAULT_SETTINGS,
+  type OverlaySettings,
+} from '@app-types';
+import { buildAssSubtitle } from '@core/ass-export';
+import { addAuthor, isListedAuthor, removeAuthor } from '@core/author-lists';
 import { ChatSource } from '@core/chat-source';
-import { sleep } from '@core/dom';
+import { CommentMenu } from '@core/comment-menu';
+import { type DanmakuTrack, parseDanmakuXml } from '@core/danmaku-import';
+import { DensityController } from '@core/density-controller';
+import { downloadTextFile, getMentionTargets, sleep } from '@core/dom';
+import { DvrBuffer } from '@core/dvr-buffer';
+import { JsonChatSource } from '@core/json-chat-source';
+import { LiveDelayBuffer } from '@core/live-delay-buffer';
 import { initOverlayLogLevel, setOverlayLogLevel } from '@core/logging';
+import type { DedupeStats, MessageSource } from '@core/message-source';
+import { MuteFilter } from '@core/mute-filter';
 import { Overlay } from '@core/overlay';
 import { PageWatcher } from '@core/page-watcher';
+import {
+  isPopoutChatPage,
+  PopoutChatSource,
+  PopoutPublisher,
+  watchForPopout,
+} from '@core/popout-bridge';
 import { Renderer } from '@core/renderer';
+import { ScriptedSource, type ScriptedSourceOptions } from '@core/scripted-source';
+import { setSelectorOverrides } from '@core/selectors';
+import { SessionRecorder } from '@core/session-recorder';
 import { Settings } from '@core/settings';
 import { SettingsUi } from '@core/settings-ui';
 import { VideoSync } from '@core/video-sync';
+import { VideoTimeline } from '@core/video-timeline';
 
 /**
  * Application state
@@ -22,27 +48,70 @@ import { VideoSync } from '@core/video-sync';
 class App {
   private pageWatcher: PageWatcher;
   private settings: Settings;
-  private chatSource: ChatSource | null = null;
+  private messageSource: MessageSource | null = null;
+  private messageSourceFactory: (() => MessageSource) | null = null;
+  private stopPopoutWatch: (() => void) | null = null;
   private overlay: Overlay | null = null;
   private _renderer: Renderer | null = null;
   private videoSync: VideoSync | null = null;
+  private videoTimeline: VideoTimeline | null = null;
+  private liveDelayBuffer: LiveDelayBuffer | null = null;
+  private dvrBuffer: DvrBuffer | null = null;
+  private danmakuTrack: DanmakuTrack | null = null;
+  private danmakuTimeline: VideoTimeline | null = null;
+  private sessionRecorder: SessionRecorder;
+  private sessionStartedAt = Date.now();
+  /** User keyword / regex rules applied before routing */
+  private readonly muteFilter = new MuteFilter();
+  /** Auto density: retunes the renderer from chat velocity */
+  private readonly densityController: DensityController;
+  private readonly commentMenu: CommentMenu;
+  /** Current pinned message / poll from the message source */
+  private readonly chatBanners = new Map<ChatBanner['kind'], ChatBanner>();
+  /** Names whose @mentions are highlighted (channel owner, viewer) */
+  private readonly mentionTargets = new Set<string>();
   private settingsUi: SettingsUi;
   private isInitialized = false;
   private restartTimer: number | null = null;
   private restartInProgress = false;
   private pendingRestart = false;
+  /** Start in progress (shared by concurrent callers) */
+  private startPromise: Promise<void> | null = null;
   private lastStartedUrl: string | null = null;
 
   constructor() {
     this.pageWatcher = new PageWatcher();
     this.settings = new Settings();
+    this.sessionRecorder = new SessionRecorder(
+      () => this.videoSync?.getCurrentTimeMs() ?? Date.now() - this.sessionStartedAt
+    );
     this.settingsUi = new SettingsUi(
       () => this.settings.get(),
       (partial) => this.updateSettings(partial),
-      () => this.resetSettings()
+      () => this.resetSettings(),
+      {
+        importDanmaku: (file) => this.importDanmaku(file),
+        clearDanmaku: () => this.clearDanmaku(),
+        exportAss: () => this.exportAss(),
+        getMuteRuleHits: () => this.muteFilter.getHits(),
+      }
+    );
+
+    this.densityController = new DensityController(
+      () => this.settings.get(),
+      () => this._renderer
     );
 
+    this.commentMenu = new CommentMenu({
+      muteAuthor: (author) => this.muteAuthor(author),
+      setAuthorHighlighted: (author, highlighted) => this.setAuthorHighlighted(author, highlighted),
+      isAuthorHighlighted: (message) =>
+        isListedAuthor(this.settings.get().highlightedAuthors, message),
+    });
+
     setOverlayLogLevel(this.settings.get().logLevel);
+    setSelectorOverrides(this.settings.get().selectorOverrides);
+    this.muteFilter.setRules(this.settings.get().muteRules);
 
     // Register page change handler
     this.pageWatcher.onChange(() => {
@@ -54,8 +123,24 @@ class App {
 
   /**
    * Start application
+   * A start that is still searching for chat is shared rather than run twice:
+   * two starts would build two overlays, and the first one's failure cleanup
+   * would stop the second one's message source.
    */
   async start(): Promise<void> {
+    if (this.startPromise) {
+      return this.startPromise;
+    }
+
+    this.startPromise = this.startComponents();
+    try {
+      await this.startPromise;
+    } finally {
+      this.startPromise = null;
+    }
+  }
+
+  private async startComponents(): Promise<void> {
     // Check if we're on a valid page
     if (!this.pageWatcher.isValidPage()) {
       console.log('[App] Not on a video page, waiting...');
@@ -89,7 +174,8 @@ class App {
       }
 
       // Create renderer
-      this._renderer = new Renderer(this.overlay, currentSettings);
+      this._renderer = this.createRenderer(this.overlay, currentSettings);
+      this.updateDensityController(currentSettings);
 
       // Initialize video sync
       this.videoSync = new VideoSync({
@@ -104,7 +190,25 @@ class App {
           }
         },
         onSeeking: () => {
-          // Optional: no action needed for now
+          // Visible comments and lane timing no longer match the picture
+          if (this._renderer) {
+            this._renderer.flush();
+          }
+          // Hold timeline releases until seeked repopulates the new position
+          this.videoTimeline?.beginSeek();
+          this.danmakuTimeline?.beginSeek();
+        },
+        onSeeked: (currentTimeMs) => {
+          // Rebuild the overlay from messages that belong to the new position
+          if (this.videoTimeline) {
+            this.videoTimeline.seek(currentTimeMs);
+          }
+          if (this.dvrBuffer) {
+            this.dvrBuffer.handleSeek(currentTimeMs);
+          }
+          if (this.danmakuTimeline) {
+            this.danmakuTimeline.seek(currentTimeMs);
+          }
         },
         onRateChange: (rate) => {
           console.log('[App] Video playback rate changed:', rate);
@@ -117,20 +221,45 @@ class App {
       // Try to initialize (non-blocking)
       await this.videoSync.init();
 
-      // Start chat source
-      this.chatSource = new ChatSource(() => this.settings.get());
-      const chatStarted = await this.chatSource.start((message) => {
-        if (this._renderer) {
-          this._renderer.addMessage(message);
-        }
-      });
+      // An imported comment file replaces live chat as the message source
+      if (this.danmakuTrack) {
+        this.startDanmakuPlayback(this.danmakuTrack);
+        this.isInitialized = true;
+        this.lastStartedUrl = location.href;
+        console.log('[App] Started with imported comments');
+        return;
+      }
+
+      // Start message source (live chat unless replaced)
+      let sourceStarted: boolean;
+      if (this.messageSourceFactory) {
+        this.messageSource = this.messageSourceFactory();
+        sourceStarted = await this.messageSource.start(
+          (message) => {
+            this.handleChatMessage(message);
+          },
+          (messageId) => {
+            this.handleRetraction(messageId);
+          },
+          (kind, banner) => {
+            this.handleBanner(kind, banner);
+          }
+        );
+      } else {
+        sourceStarted = await this.startChatSource(currentSettings);
+      }
 
-      if (!chatStarted) {
-        console.warn('[App] Failed to start chat monitoring');
+      if (!sourceStarted) {
+        console.warn('[App] Failed to start message source');
         this.cleanup();
         return;
       }
 
+      this.addMentionTargets(getMentionTargets());
+      this.updateReplayTimeline(currentSettings);
+      this.updateLiveDelayBuffer(currentSettings);
+      this.updateDvrBuffer(currentSettings);
+
       this.isInitialized = true;
       this.lastStartedUrl = location.href;
       console.log('[App] Started successfully');
@@ -140,6 +269,428 @@ class App {
     }
   }
 
+  /**
+   * Start live chat: a popout chat window for this video if one is open,
+   * otherwise the source selected in settings (falling back to the chat panel)
+   */
+  private async startChatSource(settings: Readonly<OverlaySettings>): Promise<boolean> {
+    const handleMessage = (message: ChatMessage) => this.handleChatMessage(message);
+    const handleRetraction = (messageId: string) => this.handleRetraction(messageId);
+    const handleBanner = (kind: ChatBanner['kind'], banner: ChatBanner | null) =>
+      this.handleBanner(kind, banner);
+    const videoId = this.pageWatcher.getVideoId();
+
+    if (videoId) {
+      const popoutSource = new PopoutChatSource(videoId, () => void this.restartMessageSource());
+      this.messageSource = popoutSource;
+      if (await popoutSource.start(handleMessage, handleRetraction, handleBanner)) {
+        return true;
+      }
+    }
+
+    this.messageSource = this.createChatSource(settings);
+    let started = await this.messageSource.start(handleMessage, handleRetraction, handleBanner);
+
+    if (!started && this.messageSource instanceof JsonChatSource) {
+      console.warn('[App] Chat data unavailable, falling back to the chat panel');
+      this.messageSource = new ChatSource(() => this.settings.get());
+      started = await this.messageSource.start(handleMessage, handleRetraction, handleBanner);
+    }
+
+    if (started && videoId) {
+      // Chat moved to a popout window later: switch over to it
+      this.stopPopoutWatch = watchForPopout(videoId, () => void this.restartMessageSource());
+    }
+
+    return started;
+  }
+
+  /**
+   * Restart with a fresh message source (popout chat opened or closed,
+   * imported comments loaded or cleared)
+   * Waits for a start in progress first: it may have picked its source before
+   * the change.
+   */
+  private async restartMessageSource(): Promise<void> {
+    await this.startPromise;
+    console.log('[App] Message source changed, restarting...');
+    if (this.isInitialized) {
+      this.cleanup();
+    }
+    await this.start();
+  }
+
+  /**
+   * Create the live chat source selected in settings
+   */
+  private createChatSource(settings: Readonly<OverlaySettings>): MessageSource {
+    const getSettings = () => this.settings.get();
+    return settings.chatSourceType === 'json'
+      ? new JsonChatSource(getSettings)
+      : new ChatSource(getSettings);
+  }
+
+  /**
+   * Route an incoming chat message to the renderer
+   * Muted authors and mute rules are applied first. Replay messages with a video offset go
+   * through the timeline instead, live messages are recorded for DVR playback
+   * and held by the delay buffer when those are active.
+   */
+  private handleChatMessage(chatMessage: ChatMessage): void {
+    this.densityController.recordMessage();
+
+    // The owner's chat name can differ from the channel name on the watch page
+    if (chatMessage.authorType === 'owner' && chatMessage.author) {
+      this.addMentionTargets([chatMessage.author]);
+    }
+
+    const message = this.filterMessage(chatMessage);
+    if (!message) return;
+
+    if (this.videoTimeline && message.videoOffsetMs !== undefined) {
+      this.videoTimeline.add(message);
+      return;
+    }
+
+    if (this.dvrBuffer) {
+      const liveEdgeMs = this.videoSync?.getLiveEdgeMs() ?? null;
+      if (liveEdgeMs !== null) {
+        this.dvrBuffer.record(message, liveEdgeMs);
+      }
+      // Viewer is behind the live edge: live chat does not match the picture
+      if (this.dvrBuffer.isReplaying()) return;
+    }
+
+    if (this.liveDelayBuffer) {
+      this.liveDelayBuffer.add(message);
+      return;
+    }
+
+    this.deliverMessage(message);
+  }
+
+  /**
+   * Drop a deleted or retracted message wherever it is waiting or showing
+   */
+  private handleRetraction(messageId: string): void {
+    this.videoTimeline?.remove(messageId);
+    this.dvrBuffer?.remove(messageId);
+    this.liveDelayBuffer?.remove(messageId);
+    this.sessionRecorder.remove(messageId);
+    this._renderer?.retractMessage(messageId);
+  }
+
+  /**
+   * Track the pinned message / poll and show it when banners are enabled
+   */
+  private handleBanner(kind: ChatBanner['kind'], banner: ChatBanner | null): void {
+    if (banner) {
+      this.chatBanners.set(kind, banner);
+    } else {
+      this.chatBanners.delete(kind);
+    }
+
+    if (this.settings.get().showChatBanners) {
+      this.overlay?.setBanner(kind, banner);
+    }
+  }
+
+  /**
+   * Show the tracked banners on the current overlay (or hide them all)
+   */
+  private applyChatBanners(settings: Readonly<OverlaySettings>): void {
+    const overlay = this.overlay;
+    if (!overlay) return;
+
+    overlay.clearBanners();
+    if (!settings.showChatBanners) return;
+    for (const [kind, banner] of this.chatBanners) {
+      overlay.setBanner(kind, banner);
+    }
+  }
+
+  /**
+   * Highlight @mentions of these names from now on
+   */
+  private addMentionTargets(names: readonly string[]): void {
+    const before = this.mentionTargets.size;
+    for (const name of names) {
+      this.mentionTargets.add(name);
+    }
+    if (this.mentionTargets.size !== before) {
+      this._renderer?.setMentionTargets(this.mentionTargets);
+    }
+  }
+
+  /**
+   * Hand a message to the renderer
+   */
+  private deliverMessage(message: ChatMessage): void {
+    if (this._renderer) {
+      this._renderer.addMessage(message);
+    }
+  }
+
+  /**
+   * Apply muted authors and mute rules
+   * @returns the message to show (possibly masked or dimmed), or null to hide it
+   */
+  private filterMessage(message: ChatMessage): ChatMessage | null {
+    if (isListedAuthor(this.settings.get().mutedAuthors, message)) return null;
+    return this.muteFilter.apply(message);
+  }
+
+  /**
+   * Create a renderer that reports rendered messages to the session recorder
+   */
+  private createRenderer(overlay: Overlay, settings: Readonly<OverlaySettings>): Renderer {
+    const renderer = new Renderer(overlay, settings);
+    renderer.setMentionTargets(this.mentionTargets);
+    renderer.setDensityTuning(this.densityController.getTuning());
+    renderer.setRenderListener((info) => {
+      if (this.settings.get().recordSession) {
+        this.sessionRecorder.record(info);
+      }
+    });
+    renderer.setCommentClickHandler((message, event, hoverTarget) => {
+      const container = overlay.getContainer();
+      if (container) {
+        this.commentMenu.open(message, container, event, hoverTarget);
+      }
+    });
+    return renderer;
+  }
+
+  /**
+   * Mute an author from the comment menu and remove their visible comments
+   */
+  private muteAuthor(author: AuthorRef): void {
+    this.updateSettings({ mutedAuthors: addAuthor(this.settings.get().mutedAuthors, author) });
+    this._renderer?.retractAuthor(author);
+    console.log(`[App] Muted author ${author.name ?? author.channelId}`);
+  }
+
+  /**
+   * Add an author to, or remove them from, the highlight list (comment menu)
+   */
+  private setAuthorHighlighted(author: AuthorRef, highlighted: boolean): void {
+    const { highlightedAuthors } = this.settings.get();
+    this.updateSettings({
+      highlightedAuthors: highlighted
+        ? addAuthor(highlightedAuthors, author)
+        : removeAuthor(highlightedAuthors, author),
+    });
+  }
+
+  /**
+   * Download the recorded session as an ASS subtitle file (generated locally)
+   * @returns number of exported comments
+   */
+  exportAss(): number {
+    const entries = this.sessionRecorder.getEntries();
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const videoId = this.pageWatcher.getVideoId() ?? 'session';
+    const content = buildAssSubtitle(entries, this.settings.get(), document.title);
+    downloadTextFile(`yt-chat-overlay-${videoId}.ass`, content);
+    console.log(`[App] Exported ${entries.length} comments as ASS subtitles`);
+    return entries.length;
+  }
+
+  /**
+   * Create or tear down the replay timeline based on chat mode and settings
+   */
+  private updateReplayTimeline(settings: Readonly<OverlaySettings>): void {
+    const shouldSync = Boolean(this.messageSource?.isReplay() && settings.replaySync);
+
+    if (!shouldSync) {
+      if (this.videoTimeline) {
+        this.videoTimeline.destroy();
+        this.videoTimeline = null;
+      }
+      return;
+    }
+
+    if (this.videoTimeline) return;
+
+    this.videoTimeline = new VideoTimeline();
+    this.videoTimeline.start(
+      () => this.videoSync?.getCurrentTimeMs() ?? null,
+      (message) => this.deliverMessage(message)
+    );
+    console.log('[App] Replay sync enabled');
+  }
+
+  /**
+   * Create or tear down the live delay buffer based on chat mode and settings
+   */
+  private updateLiveDelayBuffer(settings: Readonly<OverlaySettings>): void {
+    const shouldDelay = Boolean(
+      this.messageSource && !this.messageSource.isReplay() && settings.liveDelaySync
+    );
+
+    if (!shouldDelay) {
+      if (this.liveDelayBuffer) {
+        this.liveDelayBuffer.destroy();
+        this.liveDelayBuffer = null;
+      }
+      return;
+    }
+
+    if (this.liveDelayBuffer) {
+      this.liveDelayBuffer.setManualOffsetMs(settings.liveDelayOffsetMs);
+      return;
+    }
+
+    this.liveDelayBuffer = new LiveDelayBuffer(settings.liveDelayOffsetMs);
+    this.liveDelayBuffer.start(
+      () => this.videoSync?.getLiveLatencyMs() ?? null,
+      (message) => {
+        // Messages released while rewound are covered by DVR playback
+        if (!this.dvrBuffer?.isReplaying()) {
+          this.deliverMessage(message);
+        }
+      }
+    );
+    console.log('[App] Live delay sync enabled');
+  }
+
+  /**
+   * Start or stop auto density based on settings (retunes at once when running)
+   */
+  private updateDensityController(settings: Readonly<OverlaySettings>): void {
+    if (settings.autoDensity && this._renderer) {
+      this.densityController.start();
+    } else {
+      this.densityController.stop();
+    }
+  }
+
+  /**
+   * Create or tear down the DVR buffer based on chat mode and settings
+   */
+  private updateDvrBuffer(settings: Readonly<OverlaySettings>): void {
+    const shouldBuffer = Boolean(
+      this.messageSource && !this.messageSource.isReplay() && settings.dvrReplay
+    );
+
+    if (!shouldBuffer) {
+      if (this.dvrBuffer) {
+        const wasReplaying = this.dvrBuffer.isReplaying();
+        this.dvrBuffer.destroy();
+        this.dvrBuffer = null;
+        if (wasReplaying) {
+          this._renderer?.flush();
+        }
+      }
+      return;
+    }
+
+    if (this.dvrBuffer) return;
+
+    this.dvrBuffer = new DvrBuffer();
+    this.dvrBuffer.start(
+      {
+        getCurrentTimeMs: () => this.videoSync?.getCurrentTimeMs() ?? null,
+        getLiveLatencyMs: () => this.videoSync?.getLiveLatencyMs() ?? null,
+      },
+      (message) => this.deliverMessage(message),
+      (replaying) => {
+        // Comments on screen belong to the other timeline now
+        this._renderer?.flush();
+        console.log(`[App] ${replaying ? 'Replaying buffered chat (DVR)' : 'Back to live chat'}`);
+      }
+    );
+    console.log('[App] DVR chat buffer enabled');
+  }
+
+  /**
+   * Play an imported comment track in sync with the video
+   */
+  private startDanmakuPlayback(track: DanmakuTrack): void {
+    this.danmakuTimeline = new VideoTimeline(track.messages.length);
+    for (const message of track.messages) {
+      this.danmakuTimeline.add(message);
+    }
+    // Filtered as they play, so rule changes apply to the rest of the track
+    this.danmakuTimeline.start(
+      () => this.videoSync?.getCurrentTimeMs() ?? null,
+      (message) => {
+        const filtered = this.filterMessage(message);
+        if (filtered) {
+          this.deliverMessage(filtered);
+        }
+      }
+    );
+    console.log(
+      `[App] Playing ${track.messages.length} imported ${track.format} comments over the video`
+    );
+  }
+
+  /**
+   * Load a Niconico/Bilibili XML comment file and play it over the current video
+   * @returns number of imported comments
+   * @throws Error if the file has no comments or the overlay cannot start here
+   */
+  async importDanmaku(file: File): Promise<number> {
+    const track = parseDanmakuXml(await file.text());
+    if (track.messages.length === 0) {
+      throw new Error('No comments found in file');
+    }
+
+    this.danmakuTrack = track;
+
+    if (this.isInitialized) {
+      // Swap the message source without rebuilding the overlay
+      this.stopMessageSources();
+      this._renderer?.flush();
+      this.startDanmakuPlayback(track);
+    } else {
+      await this.restartMessageSource();
+    }
+
+    if (!this.danmakuTimeline) {
+      this.danmakuTrack = null;
+      throw new Error('Overlay is not running (disabled or not a video page)');
+    }
+
+    return track.messages.length;
+  }
+
+  /**
+   * Unload the imported comment track and go back to live chat
+   */
+  clearDanmaku(): void {
+    if (!this.danmakuTrack) return;
+
+    this.danmakuTrack = null;
+    console.log('[App] Imported comments cleared');
+
+    if (this.isInitialized || this.startPromise) {
+      void this.restartMessageSource();
+    }
+  }
+
+  /**
+   * Replace the message source (null restores live chat) and restart
+   */
+  useMessageSource(factory: (() => MessageSource) | null): void {
+    this.messageSourceFactory = factory;
+    void this.restartMessageSource();
+  }
+
+  /**
+   * Play a JSON array of messages (string or parsed) instead of live chat (for manual testing)
+   * @throws Error if the script is invalid
+   */
+  playScript(script: unknown, options: ScriptedSourceOptions = {}): void {
+    // Parsed here so script errors surface to the caller; the source restarts from the top
+    const source = new ScriptedSource(script, options);
+    this.useMessageSource(() => source);
+  }
+
   /**
    * Handle page change (SPA navigation)
    */
@@ -180,6 +731,11 @@ class App {
 
       console.log('[App] Page changed, restarting...');
 
+      // Imported comment tracks and recorded comments belong to the previous video
+      this.danmakuTrack = null;
+      this.sessionRecorder.clear();
+      this.sessionStartedAt = Date.now();
+
       // Cleanup existing instances thoroughly
       this.cleanup();
 
@@ -245,7 +801,8 @@ class App {
    * Update settings (for console access)
    */
   updateSettings(partial: Partial<OverlaySettings>): void {
-    const wasEnabled = this.settings.get().enabled;
+    const previousSettings = this.settings.get();
+    const wasEnabled = previousSettings.enabled;
     this.settings.update(partial);
     const nextSettings = this.settings.get();
 
@@ -253,6 +810,44 @@ class App {
       setOverlayLogLevel(nextSettings.logLevel);
     }
 
+    if (partial.selectorOverrides !== undefined) {
+      setSelectorOverrides(nextSettings.selectorOverrides);
+    }
+
+    if (partial.muteRules !== undefined) {
+      this.muteFilter.setRules(nextSettings.muteRules);
+    }
+
+    if (partial.replaySync !== undefined) {
+      this.updateReplayTimeline(nextSettings);
+    }
+
+    if (partial.liveDelaySync !== undefined || partial.liveDelayOffsetMs !== undefined) {
+      this.updateLiveDelayBuffer(nextSettings);
+    }
+
+    if (partial.dvrReplay !== undefined) {
+      this.updateDvrBuffer(nextSettings);
+    }
+
+    if (partial.showChatBanners !== undefined) {
+      this.applyChatBanners(nextSettings);
+    }
+
+    if (partial.autoDensity !== undefined || partial.density !== undefined) {
+      this.updateDensityController(nextSettings);
+    }
+
+    const chatSourceChanged = nextSettings.chatSourceType !== previousSettings.chatSourceType;
+    if (chatSourceChanged && (this.isInitialized || this.startPromise) && nextSettings.enabled) {
+      // Restart with the new chat input (no-op for scripted or imported sources)
+      if (!this.messageSourceFactory && !this.danmakuTrack) {
+        console.log(`[App] Chat source changed to ${nextSettings.chatSourceType}`);
+        void this.restartMessageSource();
+        return;
+      }
+    }
+
     if (wasEnabled && !nextSettings.enabled) {
       this.cleanup();
       console.log('[App] Overlay disabled');
@@ -273,6 +868,7 @@ class App {
         partial.fontSize !== undefined);
 
     if (needsOverlayRefresh) {
+      this.commentMenu.close();
       if (this._renderer) {
         this._renderer.destroy();
         this._renderer = null;
@@ -289,7 +885,8 @@ class App {
           }
           const overlay = this.overlay;
           if (!overlay) return;
-          this._renderer = new Renderer(overlay, nextSettings);
+          this._renderer = this.createRenderer(overlay, nextSettings);
+          this.applyChatBanners(nextSettings);
         })
         .catch((error) => {
           console.error('[App] Failed to recreate overlay:', error);
@@ -312,20 +909,28 @@ class App {
     return this._renderer;
   }
 
+  /**
+   * Duplicate-suppression counters of the current message source (diagnostics)
+   */
+  getDedupeStats(): DedupeStats | null {
+    return this.messageSource?.getDedupeStats?.() ?? null;
+  }
+
   /**
    * Cleanup all components
    */
   private cleanup(): void {
     console.log('[App] Starting cleanup...');
 
-    // Close settings UI
+    // Close settings UI and the comment menu
     this.settingsUi.close();
+    this.commentMenu.close();
 
-    // Stop chat monitoring first to prevent new messages
-    if (this.chatSource) {
-      this.chatSource.stop();
-      this.chatSource = null;
-    }
+    // Stop message sources first to prevent new messages
+    this.stopMessageSources();
+    this.densityController.stop();
+    this.chatBanners.clear();
+    this.mentionTargets.clear();
 
     // Stop video sync
     if (this.videoSync) {
@@ -358,6 +963,45 @@ class App {
     console.log('[App] Cleanup completed');
   }
 
+  /**
+   * Stop chat monitoring and all message buffers
+   */
+  private stopMessageSources(): void {
+    // Stop chat monitoring first to prevent new messages
+    if (this.stopPopoutWatch) {
+      this.stopPopoutWatch();
+      this.stopPopoutWatch = null;
+    }
+    if (this.messageSource) {
+      this.messageSource.stop();
+      this.messageSource = null;
+    }
+
+    // Stop replay timeline
+    if (this.videoTimeline) {
+      this.videoTimeline.destroy();
+      this.videoTimeline = null;
+    }
+
+    // Drop DVR history (memory only, never persisted)
+    if (this.dvrBuffer) {
+      this.dvrBuffer.destroy();
+      this.dvrBuffer = null;
+    }
+
+    // Drop messages held for live latency
+    if (this.liveDelayBuffer) {
+      this.liveDelayBuffer.destroy();
+      this.liveDelayBuffer = null;
+    }
+
+    // Stop imported comment playback (the track itself is kept)
+    if (this.danmakuTimeline) {
+      this.danmakuTimeline.destroy();
+      this.danmakuTimeline = null;
+    }
+  }
+
   /**
    * Stop application and destroy all resources
    */
@@ -401,19 +1045,42 @@ function main(): void {
   }
 }
 
+/**
+ * Forward popout chat to the watch page instead of drawing an overlay
+ */
+async function initPopoutBridge(): Promise<void> {
+  const videoId = new URLSearchParams(location.search).get('v');
+  if (!videoId) {
+    console.warn('[YT Chat Overlay] Popout chat without a video ID, nothing to forward');
+    return;
+  }
+
+  const settings = new Settings();
+  const publisher = new PopoutPublisher(videoId, new ChatSource(() => settings.get()));
+  await publisher.start();
+}
+
 /**
  * Initialize application
  */
 async function initApp(): Promise<void> {
+  if (isPopoutChatPage()) {
+    console.log('[YT Chat Overlay] Popout chat window detected, starting chat bridge...');
+    await initPopoutBridge();
+    return;
+  }
+
   console.log('[YT Chat Overlay] Initializing application...');
 
   try {
     const app = new App();
-    await app.start();
 
-    // Expose to window for debugging (type declared in globals.d.ts)
+    // Expose to window for debugging (type declared in globals.d.ts) before starting,
+    // so it is reachable on pages where chat is not found and start keeps retrying
     window.__ytChatOverlay = app;
     console.log('[YT Chat Overlay] App instance exposed to window.__ytChatOverlay');
+
+    await app.start();
   } catch (error) {
     console.error('[YT Chat Overlay] Fatal error:', error);
     // Re-throw to see stack trace
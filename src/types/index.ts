@@ -7,11 +7,109 @@
  */
 export type AuthorType = 'normal' | 'member' | 'moderator' | 'owner' | 'verified';
 
+/**
+ * Author badge shown next to a chat name
+ */
+export interface AuthorBadge {
+  /** Badge role ('other' for badges without a known role) */
+  type: Exclude<AuthorType, 'normal'> | 'other';
+  /** Tooltip text (e.g., "Member (6 months)", "Moderator") */
+  label?: string;
+  /** Custom badge image URL (membership badges; sanitized, YouTube CDN only) */
+  imageUrl?: string;
+  /** Membership tenure in months parsed from the tooltip (0 = new member) */
+  memberMonths?: number;
+}
+
 /**
  * Console log level for overlay diagnostics
  */
 export type LogLevel = 'warn' | 'info' | 'debug';
 
+/**
+ * Where live chat messages are read from
+ * - dom: rendered chat items in the chat panel
+ * - json: chat action payloads received by the chat frame
+ */
+export type ChatSourceType = 'dom' | 'json';
+
+/**
+ * How messages longer than their length limit are shown
+ * - truncate: cut at the limit with "..."
+ * - wrap: full text in a multi-line block
+ * - full: full text on a single line
+ */
+export type LongTextMode = 'truncate' | 'wrap' | 'full';
+
+/**
+ * How the comment menu opens (comment interaction enabled)
+ * - click: clicking a comment
+ * - hover: resting the pointer on a comment (clicking still works)
+ */
+export type CommentMenuTrigger = 'click' | 'hover';
+
+/**
+ * Page element groups found by CSS selector (see the selector registry)
+ */
+export type SelectorGroup =
+  | 'playerContainer'
+  | 'video'
+  | 'chatFrame'
+  | 'chatIframe'
+  | 'chatItemList'
+  | 'chatContainer'
+  | 'chatToggleButton';
+
+/**
+ * User selectors tried before the built-in ones, per group
+ */
+export type SelectorOverrides = Partial<Record<SelectorGroup, string[]>>;
+
+/**
+ * Mute rule match target
+ * - text: message text
+ * - author: author name
+ * - both: text or author name
+ */
+export type MuteRuleScope = 'text' | 'author' | 'both';
+
+/**
+ * What happens to a message matching a mute rule
+ * - hide: not shown at all
+ * - mask: matched text replaced with ●●●
+ * - dim: shown faded
+ */
+export type MuteRuleAction = 'hide' | 'mask' | 'dim';
+
+/**
+ * User keyword or regular-expression filter rule
+ */
+export interface MuteRule {
+  /** Stable rule ID (keys the hit counter) */
+  id: string;
+  /** Keyword (case-insensitive) or regular expression source */
+  pattern: string;
+  /** Treat pattern as a regular expression */
+  regex: boolean;
+  /** What the pattern is matched against */
+  scope: MuteRuleScope;
+  /** What happens to matching messages */
+  action: MuteRuleAction;
+  /** Members of at least this many months are exempt (unset: the rule applies to everyone) */
+  exemptMemberMonths?: number;
+}
+
+/**
+ * Author in a mute or highlight list
+ * Matched by channel ID when both sides have one, otherwise by name.
+ */
+export interface AuthorRef {
+  /** Author channel ID (UC...) */
+  channelId?: string;
+  /** Author display name (kept for display when the channel ID is known) */
+  name?: string;
+}
+
 /**
  * Author display settings (per author type)
  */
@@ -30,6 +128,32 @@ export interface AuthorDisplaySettings {
   superChat: boolean;
 }
 
+/**
+ * Membership event classification
+ * - new: joined the membership
+ * - milestone: membership anniversary (months)
+ * - gift: bought gift memberships for other viewers
+ * - redemption: received a gifted membership
+ */
+export type MembershipEventType = 'new' | 'milestone' | 'gift' | 'redemption';
+
+/**
+ * Membership event details (only for kind='membership')
+ */
+export interface MembershipInfo {
+  /** Event classification */
+  type: MembershipEventType;
+  /** Months of membership (milestone) */
+  months?: number;
+  /** Number of memberships gifted (gift) */
+  giftCount?: number;
+}
+
+/**
+ * Membership event display toggles (per event type)
+ */
+export type MembershipEventSettings = Record<MembershipEventType, boolean>;
+
 /**
  * Emoji/Emoticon information
  */
@@ -49,19 +173,26 @@ export interface EmojiInfo {
 }
 
 /**
- * Content segment (text or emoji)
+ * Content segment (text, emoji, link or @mention)
+ * Text keeps the original whitespace between words and emoji.
  */
 export type ContentSegment =
   | { type: 'text'; content: string }
-  | { type: 'emoji'; emoji: EmojiInfo };
+  | { type: 'emoji'; emoji: EmojiInfo }
+  /** Link as shown in chat (url is the target, with YouTube's redirect removed) */
+  | { type: 'link'; content: string; url: string }
+  /** @mention of another chat user (content includes the "@") */
+  | { type: 'mention'; content: string; channelId?: string };
 
 /**
  * Super Chat tier information
  */
 export interface SuperChatInfo {
-  /** Purchase amount (e.g., "5.00") */
+  /** Purchase amount as displayed (e.g., "$5.00", "¥500") */
   amount: string;
-  /** Currency code (e.g., "USD", "JPY", "KRW") */
+  /** Numeric amount in currency units (e.g., 5, 500) */
+  value?: number;
+  /** ISO 4217 currency code (e.g., "USD", "JPY", "KRW") */
   currency?: string;
   /** Super Chat color tier (determines prominence) */
   tier: 'blue' | 'cyan' | 'green' | 'yellow' | 'orange' | 'magenta' | 'red';
@@ -69,30 +200,74 @@ export interface SuperChatInfo {
   backgroundColor?: string;
   /** Header background color (darker shade) */
   headerBackgroundColor?: string;
-  /** Sticker image URL (for high-tier Super Chats) */
+  /** Sticker image URL (Super Stickers and high-tier Super Chats) */
   stickerUrl?: string;
+  /** Sticker description from YouTube (e.g., "Pizza slice") */
+  stickerLabel?: string;
 }
 
 /**
  * Chat message structure (normalized)
  */
 export interface ChatMessage {
-  /** Message text content (sanitized, max 80 chars) - plain text only */
+  /** YouTube chat item ID (used to retract deleted messages) */
+  id?: string;
+  /** Message text content (sanitized, display limit applied by the renderer) - plain text only */
   text: string;
   /** Rich content segments (text + emoji) - for rendering mixed content */
   content?: ContentSegment[];
   /** Message type */
-  kind: 'text' | 'superchat' | 'membership';
-  /** Timestamp when the message was detected */
+  kind: 'text' | 'superchat' | 'sticker' | 'membership';
+  /** Timestamp when the message was posted (or detected, if unknown) */
   timestamp: number;
+  /** Video time offset in ms (replay timestamp, or live-edge time when buffered for DVR) */
+  videoOffsetMs?: number;
   /** Author display name (optional, for future use) */
   author?: string;
-  /** Author type classification */
+  /** Author channel ID (UC...), when the source provides it */
+  authorChannelId?: string;
+  /** Author type classification (highest-priority badge role) */
   authorType?: AuthorType;
+  /** All author badges, in chat order */
+  authorBadges?: AuthorBadge[];
+  /** Membership tenure in months from the member badge (0 = new member) */
+  memberMonths?: number;
   /** Author photo URL (sanitized, YouTube CDN only) */
   authorPhotoUrl?: string;
-  /** Super Chat information (only for kind='superchat') */
+  /** Explicit text color (imported danmaku comments), overrides author type color */
+  color?: string;
+  /** Drawn faded (matched a mute rule with the dim action) */
+  dimmed?: boolean;
+  /** Super Chat information (only for kind='superchat' or 'sticker') */
   superChat?: SuperChatInfo;
+  /** Membership event details (only for kind='membership') */
+  membership?: MembershipInfo;
+}
+
+/**
+ * Poll choice shown in a poll banner
+ */
+export interface PollChoice {
+  /** Choice label */
+  text: string;
+  /** Vote share (e.g., "42%"), once results are visible */
+  percentage?: string;
+}
+
+/**
+ * Pinned message or poll shown above the chat (plain text only)
+ */
+export interface ChatBanner {
+  /** Banner classification */
+  kind: 'pinned' | 'poll';
+  /** Header line (e.g., "Pinned by Moderator", poll author and time) */
+  header?: string;
+  /** Author of the pinned message */
+  author?: string;
+  /** Pinned message text or poll question */
+  text: string;
+  /** Poll choices (only for kind='poll') */
+  choices?: PollChoice[];
 }
 
 /**
@@ -145,16 +320,69 @@ export interface OverlaySettings {
   safeBottom: number;
   /** Maximum concurrent messages */
   maxConcurrentMessages: number;
-  /** Maximum messages per second (1-20) */
+  /** Regular chat admitted per second (1-20); paid events, owner and moderators bypass it */
   maxMessagesPerSecond: number;
+  /** Regular chat waiting longer than this for a lane or rate budget is dropped (1000-10000 ms) */
+  queueMaxAgeMs: number;
+  /** Merge repeats of a recent comment into one comment with a ×N counter */
+  collapseDuplicates: boolean;
+  /** Repeats arriving within this time of the previous one are merged (1000-15000 ms) */
+  collapseWindowMs: number;
+  /**
+   * Tune admission rate, speed, sampling and on-screen cap from chat velocity
+   * and lane occupancy (overrides maxMessagesPerSecond and maxConcurrentMessages)
+   */
+  autoDensity: boolean;
+  /** Auto density target, 1 (sparse) to 10 (dense) */
+  density: number;
   /** Allow short plain-text messages below minTextLength threshold */
   allowShortTextMessages: boolean;
   /** Minimum visible character count for regular plain text messages (1-10) */
   minTextLength: number;
+  /** Length limit for chat and membership messages (20-200 chars) */
+  maxTextLength: number;
+  /** Length limit for Super Chat messages (20-350 chars) */
+  maxSuperChatTextLength: number;
+  /** How messages over their length limit are shown */
+  longTextMode: LongTextMode;
+  /** Local conversion table: units of each currency per 1 USD (ISO code → rate) */
+  currencyRates: Record<string, number>;
+  /** Extra CSS selectors for page elements, tried before the built-in ones */
+  selectorOverrides: SelectorOverrides;
+  /** Keyword and regular-expression rules applied to incoming messages, in order */
+  muteRules: MuteRule[];
+  /** Authors whose messages are never shown */
+  mutedAuthors: AuthorRef[];
+  /** Authors whose comments are drawn in the highlight color with a border */
+  highlightedAuthors: AuthorRef[];
+  /** Text and border color for highlighted authors */
+  highlightColor: string;
+  /** Make flowing comments clickable (mute / highlight author, copy text) */
+  commentInteraction: boolean;
+  /** Open the comment menu on click or on hover */
+  commentMenuTrigger: CommentMenuTrigger;
   /** Console log level for overlay diagnostics */
   logLevel: LogLevel;
+  /** Chat input: rendered chat DOM or chat JSON payloads */
+  chatSourceType: ChatSourceType;
+  /** Schedule chat replay (VOD) messages against the video's currentTime */
+  replaySync: boolean;
+  /** Hold live chat messages until the video catches up (estimated player latency) */
+  liveDelaySync: boolean;
+  /** Manual adjustment added to the estimated live latency in ms (-10000 to 10000) */
+  liveDelayOffsetMs: number;
+  /** Replay buffered live chat when the viewer rewinds a live stream */
+  dvrReplay: boolean;
+  /** Record rendered comments in memory so they can be exported as an ASS subtitle file */
+  recordSession: boolean;
+  /** Show the pinned message and poll in a fixed banner above the comment lanes */
+  showChatBanners: boolean;
+  /** Membership event types shown on the overlay */
+  membershipEvents: MembershipEventSettings;
   /** Author display settings */
   showAuthor: AuthorDisplaySettings;
+  /** Draw author badge icons next to shown author names */
+  showAuthorBadges: boolean;
   /** Color settings for different author types */
   colors: ColorSettings;
   /** Text outline settings */
@@ -175,6 +403,22 @@ export interface LaneState {
   lastItemWidthPx: number;
   /** Last item height in pixels */
   lastItemHeightPx: number;
+  /** Last item scroll speed in pixels per second */
+  lastItemSpeedPxPerSec: number;
+}
+
+/**
+ * Renderer overrides computed by auto density
+ */
+export interface DensityTuning {
+  /** Regular chat admitted per second */
+  maxMessagesPerSecond: number;
+  /** Regular chat waits while this many comments are on screen */
+  maxConcurrentMessages: number;
+  /** Scroll speed before the playback rate is applied */
+  speedPxPerSec: number;
+  /** Share of incoming regular chat offered to the queue (0-1) */
+  sampleRate: number;
 }
 
 /**
@@ -199,7 +443,14 @@ export const SETTINGS_LIMITS = {
   safeBottom: { min: 0, max: 0.25, step: 0.01 },
   maxConcurrentMessages: { min: 30, max: 100, step: 10 },
   maxMessagesPerSecond: { min: 1, max: 20, step: 1 },
+  queueMaxAgeMs: { min: 1000, max: 10000, step: 500 },
+  collapseWindowMs: { min: 1000, max: 15000, step: 1000 },
+  exemptMemberMonths: { min: 1, max: 120, step: 1 },
+  density: { min: 1, max: 10, step: 1 },
   minTextLength: { min: 1, max: 10, step: 1 },
+  maxTextLength: { min: 20, max: 200, step: 10 },
+  maxSuperChatTextLength: { min: 20, max: 350, step: 10 },
+  liveDelayOffsetMs: { min: -10000, max: 10000, step: 500 },
   outlineWidthPx: { min: 0, max: 5, step: 0.5 },
   outlineBlurPx: { min: 0, max: 8, step: 0.5 },
   outlineOpacity: { min: 0, max: 1, step: 0.1 },
@@ -234,16 +485,102 @@ export const DEFAULT_SETTINGS: Readonly<OverlaySettings> = {
   /** Soft cap for performance monitoring (not strictly enforced). */
   maxConcurrentMessages: 30,
   /**
-   * Hard rate limit: at most 4 messages per second reach the overlay.
-   * Keeps the screen from becoming unreadable during chat bursts.
+   * Regular chat budget: about 4 messages per second reach the overlay.
+   * Keeps the screen from becoming unreadable during chat bursts; Super Chats,
+   * memberships, owner and moderator messages are always shown.
    */
   maxMessagesPerSecond: 4,
+  /** A comment shown more than a few seconds late no longer matches the conversation. */
+  queueMaxAgeMs: 4000,
+  /** Chat floods ("草", emote spam) become one counter instead of filling every lane. */
+  collapseDuplicates: true,
+  /** Long enough to span a burst, short enough that a later repeat is a new comment. */
+  collapseWindowMs: 5000,
+  /** Off by default so the manual rate settings keep working as configured. */
+  autoDensity: false,
+  /** Middle of the slider: about 6 messages per second on a busy stream. */
+  density: 5,
   /** Keep strict mode by default to reduce chat noise. */
   allowShortTextMessages: false,
   /** Require at least 3 visible characters for regular messages. */
   minTextLength: 3,
+  /** Roughly one line across the video at the default font size. */
+  maxTextLength: 80,
+  /** Super Chat messages are paid for, so show them in full (YouTube caps them at 350). */
+  maxSuperChatTextLength: 350,
+  /** Cut long messages so a single comment never spans the whole screen. */
+  longTextMode: 'truncate',
+  /**
+   * Approximate rates for comparing Super Chats across currencies (tier
+   * fallback, filters, totals). Editable in settings; never fetched online.
+   */
+  currencyRates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 150,
+    KRW: 1350,
+    CNY: 7.2,
+    TWD: 32,
+    HKD: 7.8,
+    SGD: 1.34,
+    CAD: 1.36,
+    AUD: 1.52,
+    NZD: 1.65,
+    MXN: 17,
+    BRL: 5,
+    INR: 83,
+    PHP: 56,
+    IDR: 15600,
+    MYR: 4.7,
+    THB: 36,
+    VND: 24500,
+    RUB: 90,
+    TRY: 32,
+    PLN: 4,
+    CHF: 0.88,
+    SEK: 10.5,
+  },
+  /** Built-in selectors only; overrides are a hotfix for YouTube markup changes. */
+  selectorOverrides: {},
+  /** Nothing is muted until the viewer adds rules. */
+  muteRules: [],
+  mutedAuthors: [],
+  highlightedAuthors: [],
+  /** Pink – distinct from every author type and Super Chat tier colour. */
+  highlightColor: '#FF4081',
+  /** Off by default: clickable comments would block clicks on the player. */
+  commentInteraction: false,
+  /** Click is deliberate; hover menus would pop up while crossing the video. */
+  commentMenuTrigger: 'click',
   /** Default to warnings/errors only for a clean console. */
   logLevel: 'warn',
+  /** DOM scraping is the long-standing path; JSON payloads are opt-in. */
+  chatSourceType: 'dom',
+  /** Line replay comments up with the moment they were posted in the stream. */
+  replaySync: true,
+  /** Live chat runs ahead of the player; delay it to match what is on screen. */
+  liveDelaySync: true,
+  /** No manual correction until the viewer tunes it. */
+  liveDelayOffsetMs: 0,
+  /** Rewound live streams show the chat from that moment (memory only). */
+  dvrReplay: true,
+  /** Opt-in: only clippers need the export, and it costs memory per comment. */
+  recordSession: false,
+  /** Fullscreen viewers would otherwise miss moderator announcements and polls. */
+  showChatBanners: true,
+  membershipEvents: {
+    /** New members are rare and worth celebrating. */
+    new: true,
+    /** Milestones usually carry a message from the member. */
+    milestone: true,
+    /** Gift purchases are as prominent as Super Chats in the chat panel. */
+    gift: true,
+    /** Redemptions arrive in bursts after each gift – one card per recipient is noise. */
+    redemption: false,
+  },
+  /** Names alone keep comments compact; badges are opt-in. */
+  showAuthorBadges: false,
   showAuthor: {
     /** Hide author names for regular users – reduces visual noise. */
     normal: false,